@@ -12,6 +12,8 @@ declare global {
             LISTEN_ADDR: string;
             /** The base URL of the application. */
             BASE_URL: string;
+            /** Proxy trusted to report the client IP: `cloudflare`, a number of proxies, or unset for none. */
+            TRUST_PROXY?: string;
             /** The database connection string. */
             DATABASE_URL: string;
             /** The secret key used for JWT authentication. */
@@ -28,10 +30,58 @@ declare global {
             DISCORD_CLIENT_ID?: string;
             /** Discord OAuth client secret. */
             DISCORD_CLIENT_SECRET?: string;
+            /**
+             * Comma-separated names of OpenID Connect providers (e.g. `keycloak,entra`).
+             * Each one reads `OIDC_<NAME>_ISSUER`, `OIDC_<NAME>_CLIENT_ID`, `OIDC_<NAME>_CLIENT_SECRET`
+             * and, optionally, `OIDC_<NAME>_SCOPES`.
+             */
+            OIDC_PROVIDERS?: string;
+            /**
+             * Comma-separated URLs OAuth flows may return to with `returnTo` (e.g. `https://app.example.com/auth,myapp://oauth`).
+             * A `returnTo` matches an entry with the same scheme and host whose path is a prefix of its path.
+             * The first entry is the default `returnTo` of the redirect mode.
+             */
+            OAUTH_RETURN_TO_ALLOWLIST?: string;
+            /** Comma-separated origins the OAuth popup page posts its result to (e.g. `https://app.example.com`). */
+            OAUTH_ALLOWED_ORIGINS?: string;
+            /** Default OAuth callback mode: `popup` (postMessage, default) or `redirect` (one-time code). */
+            OAUTH_CALLBACK_MODE?: 'popup' | 'redirect';
             /** The base path for OAuth redirects. */
             OAUTH_REDIRECT_URI_BASE: string;
+            /** Issuer shown by authenticator apps for 2FA (defaults to the host of `BASE_URL`). */
+            MFA_ISSUER?: string;
+            /** Set to `true` to require 2FA on admin routes. */
+            ADMIN_REQUIRE_MFA?: string;
             /** AWS Cognito client ID. */
             COGNITO_CLIENT_ID: string;
+            /** AWS Cognito user pool ID, used to verify ID tokens against the pool's JWKS. */
+            COGNITO_USER_POOL_ID: string;
+            /** Secret used to encrypt tokens stored in sessions (e.g. Cognito refresh tokens). */
+            SESSION_ENCRYPTION_KEY: string;
+            /** Sessions expire after this long without requests (duration like `30m`, `24h`, `7d`; default `24h`). */
+            SESSION_IDLE_TIMEOUT?: string;
+            /** Sessions expire this long after login, however much they are used (default `7d`). */
+            SESSION_MAX_LIFETIME?: string;
+            /** Fixed lifetime of "remember me" sessions (default `30d`). */
+            SESSION_REMEMBER_ME_LIFETIME?: string;
+            /** Session expiry is only extended once less than this remains (default: idle timeout minus 5 minutes). */
+            SESSION_REFRESH_THRESHOLD?: string;
+            /** How long sessions are served from memory (default `0`, disabled). */
+            SESSION_CACHE_TTL?: string;
+            /** Failed logins of an email before it is locked out (default `5`). */
+            LOGIN_LOCKOUT_THRESHOLD?: string;
+            /** First login lockout; doubles with each further failure (default `1m`). */
+            LOGIN_LOCKOUT_DURATION?: string;
+            /** Longest login lockout (default `1h`). */
+            LOGIN_LOCKOUT_MAX_DURATION?: string;
+            /** Lockouts within 5 minutes that send a brute-force alert (default `10`). */
+            LOCKOUT_ALERT_THRESHOLD?: string;
+            /** Minimum level logged: `debug`, `info` (default), `warn` or `error`. */
+            LOG_LEVEL?: 'debug' | 'info' | 'warn' | 'error';
+            /** Log output: `json` lines, or colored `pretty` lines (default when `ENV` is `development`). */
+            LOG_FORMAT?: 'json' | 'pretty';
+            /** Verified SES sender address for login emails; passwordless login is disabled when unset. */
+            SES_FROM_EMAIL?: string;
             /** AWS region for Cognito and S3. */
             AWS_REGION: string;
             /** The name of the S3 bucket used for storage. */
@@ -44,6 +94,22 @@ declare global {
             REDIS_URL: string;
             /** AbacatePay API key for payment processing. */
             ABACATE_API_KEY: string;
+            /** Shared secret AbacatePay sends as the `webhookSecret` query parameter. */
+            ABACATE_WEBHOOK_SECRET?: string;
+            /** Key used to verify the HMAC signature of AbacatePay webhooks. */
+            ABACATE_WEBHOOK_SIGNING_KEY?: string;
+            /** Maximum concurrent status checks while polling AbacatePay (default 10). */
+            ABACATE_POLL_CONCURRENCY?: string;
+            /** Timeout in milliseconds of each AbacatePay status check while polling (default 10000). */
+            ABACATE_POLL_TIMEOUT_MS?: string;
+            /** Stripe secret API key. Card payments are disabled when unset. */
+            STRIPE_API_KEY?: string;
+            /** Stripe webhook signing secret (`whsec_...`). */
+            STRIPE_WEBHOOK_SECRET?: string;
+            /** URL Stripe Checkout redirects to after a successful payment. */
+            STRIPE_SUCCESS_URL?: string;
+            /** URL Stripe Checkout redirects to when the customer cancels. */
+            STRIPE_CANCEL_URL?: string;
         }
     }
 }
@@ -18,6 +18,8 @@ export function checkEnv(): void {
     "DATABASE_URI", 
     "S3_BUCKET",
     "COGNITO_CLIENT_ID",
+    "COGNITO_USER_POOL_ID",
+    "SESSION_ENCRYPTION_KEY",
     "OAUTH_REDIRECT_URI_BASE",
     "ABACATE_API_KEY",
     "REDIS_URL",
@@ -40,3 +42,76 @@ export function checkEnv(): void {
   );
   process.exit(1);
 }
+
+/**
+ * Parses a duration like `30s`, `15m`, `24h` or `7d` (plain numbers are seconds).
+ *
+ * @param value Duration text
+ * @returns number | null Duration in milliseconds, or null if the text is not a duration
+ */
+export function parseDuration(value: string): number | null {
+  const match = value.trim().match(/^(\d+)\s*(s|m|h|d)?$/);
+  if (!match) return null;
+
+  const unit = { s: 1, m: 60, h: 60 * 60, d: 24 * 60 * 60 }[(match[2] ?? 's') as 's' | 'm' | 'h' | 'd'];
+  return Number(match[1]) * unit * 1000;
+}
+
+/**
+ * Reads a duration environment variable (see {@link parseDuration}).
+ *
+ * @param name Variable name
+ * @param fallback Duration in milliseconds when the variable is unset
+ * @returns number Duration in milliseconds
+ * @throws Error if the variable is set but is not a duration
+ */
+export function durationFromEnv(name: string, fallback: number): number {
+  const value = process.env[name]?.trim();
+  if (!value) return fallback;
+
+  const duration = parseDuration(value);
+  if (duration === null) throw new Error(`${name} must be a duration like 30m, 24h or 7d (got "${value}")`);
+
+  return duration;
+}
+
+/**
+ * Reads the `TRUST_PROXY` setting: which reverse proxy in front of the server is trusted
+ * to report the client IP.
+ *
+ * @returns 'cloudflare' | number | false `cloudflare` to trust `CF-Connecting-IP`, the number of
+ * proxies appending to `X-Forwarded-For`, or false to use the socket address only
+ * @throws Error if the variable is set to anything else
+ */
+export function trustProxyFromEnv(): 'cloudflare' | number | false {
+  const value = process.env.TRUST_PROXY?.trim().toLowerCase();
+  if (!value || value === 'false') return false;
+  if (value === 'cloudflare') return value;
+
+  const hops = Number(value);
+  if (!Number.isSafeInteger(hops) || hops <= 0) {
+    throw new Error(`TRUST_PROXY must be "cloudflare", a number of proxies or "false" (got "${value}")`);
+  }
+
+  return hops;
+}
+
+/**
+ * Reads a positive integer environment variable.
+ *
+ * @param name Variable name
+ * @param fallback Value when the variable is unset
+ * @returns number The parsed value
+ * @throws Error if the variable is set but is not a positive integer
+ */
+export function positiveIntFromEnv(name: string, fallback: number): number {
+  const value = process.env[name]?.trim();
+  if (!value) return fallback;
+
+  const number = Number(value);
+  if (!Number.isSafeInteger(number) || number <= 0) {
+    throw new Error(`${name} must be a positive integer (got "${value}")`);
+  }
+
+  return number;
+}
@@ -1,10 +1,38 @@
-import cron from '@elysiajs/cron';
+import cron, { type CronConfig } from '@elysiajs/cron';
 import Elysia from 'elysia';
 import { updatePaymentStatus } from './update-payment-status';
+import { renewSubscriptions } from './renew-subscriptions';
 
 import type { Services } from '../types/types';
 import type { ApiDatabase } from '../db/db';
+import { withLogContext } from '../services/logger';
 
 export const crons = ({ services, db }: { db: ApiDatabase; services: Services }) =>
   new Elysia()
-    .use(cron(updatePaymentStatus({ services, db })));
+    .use(cron(logged(services, updatePaymentStatus({ services, db }))))
+    .use(cron(logged(services, renewSubscriptions({ services, db }))));
+
+/**
+ * Wraps a cron job so every entry logged while it runs (including by the services and notifications it calls)
+ * has its name as `job`, and its duration or failure is logged.
+ *
+ * @param services Services container, for the logger
+ * @param config Cron job
+ * @returns CronConfig The same job, logged
+ */
+function logged<Name extends string>(services: Services, config: CronConfig<Name>): CronConfig<Name> {
+  return {
+    ...config,
+    run: (store) =>
+      withLogContext({ job: config.name }, async () => {
+        const startedAt = performance.now();
+
+        try {
+          await config.run(store);
+          services.logger.info('Cron job finished', { durationMs: Math.round(performance.now() - startedAt) });
+        } catch (error) {
+          services.logger.error('Cron job failed', { error });
+        }
+      }),
+  };
+}
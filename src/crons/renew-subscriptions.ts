@@ -0,0 +1,29 @@
+import { type CronConfig, Patterns } from '@elysiajs/cron';
+import type { ApiDatabase } from '../db/db';
+import type { Services } from '../types/types';
+
+/**
+ * Cron job to renew subscriptions and run dunning.
+ *
+ * Runs every day at 03:00.
+ *
+ * @param db - The database instance
+ * @param services - The services container
+ *
+ * @returns CronConfig object for the renew-subscriptions job
+ */
+export function renewSubscriptions({
+  db,
+  services,
+}: { db: ApiDatabase; services: Services }): CronConfig<'renew-subscriptions'> {
+  return {
+    name: 'renew-subscriptions',
+    pattern: Patterns.everyDayAt('03:00'),
+    run: async () => {
+      services.logger.info('Running subscription renewals');
+      const { renewed, retried, canceled } = await services.subscriptions.renew({ db, services });
+
+      services.logger.info('Subscription renewals done', { renewed, retried, canceled });
+    },
+  };
+}
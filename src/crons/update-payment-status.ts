@@ -1,11 +1,13 @@
 import { type CronConfig, Patterns } from '@elysiajs/cron';
 import type { ApiDatabase } from '../db/db';
 import type { Services } from '../types/types';
+import { PaymentGateway, PaymentStatus } from '../services/enums';
 
 /**
  * Cron job to update payment status from AbacatePay.
  *
- * Runs every 30 seconds.
+ * Runs every 5 minutes as a reconciliation fallback for missed webhooks;
+ * the AbacatePay webhook settles payments as soon as they change.
  *
  * @param db - The database instance
  * @param services - The services container
@@ -18,20 +20,61 @@ export function updatePaymentStatus({
 }: { db: ApiDatabase; services: Services }): CronConfig<'update-payment-status'> {
   return {
     name: 'update-payment-status',
-    pattern: Patterns.everySeconds(30),
+    pattern: Patterns.everyMinutes(5),
     run: async () => {
-      console.log('Running payment status update...');
+      services.logger.info('Running payment status update');
+      const { abacate, records } = services.payments;
+
+      // Track charges created before the pending set existed (only does work once)
+      try {
+        const backfilled = await abacate.backfill(() => records.listPendingPayments(db, PaymentGateway.ABACATE));
+        if (backfilled > 0) services.logger.info('Tracked pending AbacatePay charges', { count: backfilled });
+      } catch (error) {
+        services.logger.error('Error tracking pending AbacatePay charges', { error });
+      }
+
       // Poll AbacatePay for payment updates
-      const { failures, successes } = await services.payments.abacate.poll();
+      const { failures, successes, skipped } = await abacate.poll();
+      if (skipped) {
+        services.logger.info('Payment status update already running elsewhere, skipping');
+        return;
+      }
+
+      // Settles one charge. Settled charges are untracked by settlePayment; charges that fail
+      // to settle stay tracked and are reported again by the next poll.
+      const settle = async (
+        id: string,
+        status: PaymentStatus.COMPLETED | PaymentStatus.FAILED,
+        reason?: string,
+      ) => {
+        try {
+          const payment = await records.settlePayment(
+            { db, services },
+            { provider: PaymentGateway.ABACATE, providerId: id, status, reason },
+          );
+          if (payment) return;
+
+          services.logger.warn('No pending payment found for AbacatePay charge', { chargeId: id });
+          await abacate.untrack(id);
+        } catch (error) {
+          services.logger.error('Error settling AbacatePay payment', { chargeId: id, error });
+        }
+      };
 
       if (failures.length > 0) {
-        console.log(`${failures.length} payment(s) failed or expired`);
-        // TODO: Update payment records in database as failed
+        services.logger.info('Payments failed or expired', { count: failures.length });
+
+        for (const { id, reason } of failures) {
+          await settle(id, PaymentStatus.FAILED, reason);
+        }
       }
 
       if (successes.length > 0) {
-        console.log(`${successes.length} payment(s) succeeded`);
-        // TODO: Update payment records in database as paid
+        services.logger.info('Payments succeeded', { count: successes.length });
+
+        for (const { id } of successes) {
+          await settle(id, PaymentStatus.COMPLETED);
+        }
       }
     },
   };
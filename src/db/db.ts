@@ -7,6 +7,7 @@ import { Database } from 'bun:sqlite';
 import { drizzle } from 'drizzle-orm/bun-sqlite';
 import { readdir } from 'node:fs/promises';
 import { join } from 'node:path';
+import { logger } from '../services/logger';
 import { schema } from './schema';
 
 const DATABASE_PATH = 'database.db';
@@ -59,14 +60,14 @@ async function runMigrations(db: Database) {
         .get(file);
 
       if (existingMigration) {
-        console.log(`⊘ Skipping migration: ${file} (already executed)`);
+        logger.debug('Skipping migration (already executed)', { migration: file });
         continue;
       }
 
       const filePath = join(migrationsDir, file);
       const sql = await Bun.file(filePath).text();
 
-      console.log(`Running migration: ${file}`);
+      logger.info('Running migration', { migration: file });
 
       // Split by semicolon and execute each statement
       const statements = sql
@@ -81,10 +82,10 @@ async function runMigrations(db: Database) {
       // Record that this migration has been run
       db.run('INSERT INTO _migrations (filename) VALUES (?)', [file]);
 
-      console.log(`✓ Migration ${file} completed`);
+      logger.info('Migration completed', { migration: file });
     }
   } catch (error) {
-    console.error('Migration failed:', error);
+    logger.error('Migration failed', { error });
     throw error;
   }
 }
@@ -0,0 +1,20 @@
+-- Payments migration
+-- Persists provider charges so in-flight payments survive a Redis flush
+
+CREATE TABLE IF NOT EXISTS payments (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(12)))),
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  amount INTEGER NOT NULL CHECK (amount > 0),
+  provider TEXT NOT NULL,
+  provider_id TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  failure_reason TEXT,
+  completed_at INTEGER
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_payments_user_id ON payments(user_id);
+CREATE INDEX IF NOT EXISTS idx_payments_status ON payments(status);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payments_provider ON payments(provider, provider_id);
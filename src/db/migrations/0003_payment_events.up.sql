@@ -0,0 +1,16 @@
+-- Payment events migration
+-- Stores provider webhook deliveries so duplicates are ignored and payments keep an event history
+
+CREATE TABLE IF NOT EXISTS payment_events (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(12)))),
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  provider TEXT NOT NULL,
+  event_id TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  payment_id TEXT REFERENCES payments(id) ON DELETE CASCADE,
+  payload TEXT NOT NULL
+);
+
+-- Create indexes for better query performance
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_events_event ON payment_events(provider, event_id);
+CREATE INDEX IF NOT EXISTS idx_payment_events_payment_id ON payment_events(payment_id);
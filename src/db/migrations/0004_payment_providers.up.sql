@@ -0,0 +1,5 @@
+-- Payment providers migration
+-- Adds the currency and purpose of each charge so Pix and card payments share the payments table
+
+ALTER TABLE payments ADD COLUMN currency TEXT NOT NULL DEFAULT 'brl';
+ALTER TABLE payments ADD COLUMN purpose TEXT NOT NULL DEFAULT 'one_off';
@@ -0,0 +1,38 @@
+-- Subscriptions migration
+-- Creates monthly plans and user subscriptions, and links renewal charges to them
+
+CREATE TABLE IF NOT EXISTS plans (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(12)))),
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  slug TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  description TEXT DEFAULT '',
+  amount INTEGER NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL DEFAULT 'brl',
+  trial_days INTEGER NOT NULL DEFAULT 0,
+  active INTEGER NOT NULL DEFAULT 1
+);
+
+CREATE TABLE IF NOT EXISTS subscriptions (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(12)))),
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  plan_id TEXT NOT NULL REFERENCES plans(id),
+  status TEXT NOT NULL CHECK (status IN ('trialing', 'active', 'past_due', 'canceled')),
+  payment_method TEXT NOT NULL DEFAULT 'pix',
+  current_period_start INTEGER NOT NULL DEFAULT (unixepoch()),
+  current_period_end INTEGER NOT NULL DEFAULT (unixepoch()),
+  cancel_at_period_end INTEGER NOT NULL DEFAULT 0,
+  canceled_at INTEGER,
+  renewal_attempts INTEGER NOT NULL DEFAULT 0,
+  last_renewal_attempt_at INTEGER
+);
+
+ALTER TABLE payments ADD COLUMN subscription_id TEXT REFERENCES subscriptions(id) ON DELETE SET NULL;
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_subscriptions_user_id ON subscriptions(user_id);
+CREATE INDEX IF NOT EXISTS idx_subscriptions_status ON subscriptions(status, current_period_end);
+CREATE INDEX IF NOT EXISTS idx_payments_subscription_id ON payments(subscription_id);
@@ -0,0 +1,18 @@
+-- Refunds migration
+-- Records every refund issued for a payment and tracks the refunded total
+
+ALTER TABLE payments ADD COLUMN refunded_amount INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS refunds (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(12)))),
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  payment_id TEXT NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+  amount INTEGER NOT NULL CHECK (amount > 0),
+  provider_refund_id TEXT NOT NULL,
+  reason TEXT,
+  requested_by TEXT REFERENCES users(id) ON DELETE SET NULL
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_refunds_payment_id ON refunds(payment_id);
+CREATE INDEX IF NOT EXISTS idx_payments_created_at ON payments(created_at);
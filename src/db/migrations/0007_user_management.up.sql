@@ -0,0 +1,9 @@
+-- User management migration
+-- Keeps the reason of the last status change and soft-deletes users
+
+ALTER TABLE users ADD COLUMN status_reason TEXT;
+ALTER TABLE users ADD COLUMN deleted_at INTEGER;
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_users_status ON users(status);
+CREATE INDEX IF NOT EXISTS idx_users_deleted_at ON users(deleted_at);
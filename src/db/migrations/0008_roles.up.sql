@@ -0,0 +1,35 @@
+-- Roles migration
+-- Adds roles with named permissions, assigns them to users, and seeds the built-in roles
+
+CREATE TABLE IF NOT EXISTS roles (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(12)))),
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  slug TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  description TEXT DEFAULT '',
+  permissions TEXT NOT NULL DEFAULT '[]', -- JSON array of permission names, '*' grants all
+  system INTEGER NOT NULL DEFAULT 0 -- built-in roles cannot be deleted
+);
+
+CREATE TABLE IF NOT EXISTS user_roles (
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role_id TEXT NOT NULL REFERENCES roles(id) ON DELETE CASCADE,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  assigned_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+  PRIMARY KEY (user_id, role_id)
+);
+
+-- Built-in roles: `admin` and `user` mirror users.role, `support` and `finance` are staff presets
+INSERT OR IGNORE INTO roles (slug, name, description, permissions, system) VALUES
+  ('admin', 'Admin', 'Full access', '["*"]', 1),
+  ('user', 'User', 'Regular user, no admin access', '[]', 1),
+  ('support', 'Support', 'Views users and payments', '["users.read","payments.read"]', 0),
+  ('finance', 'Finance', 'Views, refunds and exports payments', '["payments.read","payments.refund","payments.export"]', 0);
+
+-- Assign every existing user the role matching users.role
+INSERT OR IGNORE INTO user_roles (user_id, role_id)
+  SELECT users.id, roles.id FROM users JOIN roles ON roles.slug = users.role;
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_user_roles_role_id ON user_roles(role_id);
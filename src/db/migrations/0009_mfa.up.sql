@@ -0,0 +1,21 @@
+-- Two-factor authentication migration
+-- Adds TOTP enrollment per user and one-time recovery codes, stored hashed
+
+CREATE TABLE IF NOT EXISTS user_mfa (
+  user_id TEXT PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  totp_secret TEXT NOT NULL, -- encrypted with SESSION_ENCRYPTION_KEY
+  enabled_at INTEGER, -- NULL until the enrollment is confirmed with a code
+  last_used_step INTEGER -- last accepted TOTP time step, so a code cannot be replayed
+);
+
+CREATE TABLE IF NOT EXISTS mfa_recovery_codes (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(12)))),
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL UNIQUE, -- HMAC-SHA256 of the code
+  used_at INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_mfa_recovery_codes_user_id ON mfa_recovery_codes(user_id);
@@ -0,0 +1,16 @@
+-- API keys migration
+-- Adds personal API keys for machine-to-machine access, stored hashed with scopes and an optional expiry
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(12)))),
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  prefix TEXT NOT NULL, -- first characters of the key, shown to tell keys apart
+  key_hash TEXT NOT NULL UNIQUE, -- HMAC-SHA256 of the key
+  scopes TEXT NOT NULL DEFAULT '[]', -- JSON array of scope names
+  expires_at INTEGER, -- NULL for keys that do not expire
+  last_used_at INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_user_id ON api_keys(user_id);
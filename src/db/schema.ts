@@ -3,7 +3,7 @@
  * Defines all tables, relationships, and constraints.
  */
 
-import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, index, uniqueIndex, primaryKey } from 'drizzle-orm/sqlite-core';
 import { sql, relations } from 'drizzle-orm';
 
 // ============= Core User Management =============
@@ -21,6 +21,8 @@ const users = sqliteTable('users', {
   status: text('status', { enum: ['active', 'inactive', 'banned'] })
     .notNull()
     .default('active'),
+  statusReason: text('status_reason'),
+  deletedAt: integer('deleted_at', { mode: 'timestamp' }),
 });
 
 const oauthAccounts = sqliteTable('oauth_accounts', {
@@ -34,6 +36,191 @@ const oauthAccounts = sqliteTable('oauth_accounts', {
   providerId: text('provider_id').notNull(),
 });
 
+// ============= Roles & Permissions =============
+
+const roles = sqliteTable('roles', {
+  id: text('id').primaryKey().default(sql`(lower(hex(randomblob(12))))`),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+  slug: text('slug').notNull().unique(),
+  name: text('name').notNull(),
+  description: text('description').default(''),
+  permissions: text('permissions', { mode: 'json' }).$type<string[]>().notNull().default([]), // '*' grants all
+  system: integer('system', { mode: 'boolean' }).notNull().default(false), // built-in, cannot be deleted
+});
+
+const userRoles = sqliteTable(
+  'user_roles',
+  {
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    roleId: text('role_id')
+      .notNull()
+      .references(() => roles.id, { onDelete: 'cascade' }),
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+    assignedBy: text('assigned_by').references(() => users.id, { onDelete: 'set null' }),
+  },
+  (table) => [primaryKey({ columns: [table.userId, table.roleId] }), index('idx_user_roles_role_id').on(table.roleId)],
+);
+
+// ============= Two-Factor Authentication =============
+
+const userMfa = sqliteTable('user_mfa', {
+  userId: text('user_id')
+    .primaryKey()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+  totpSecret: text('totp_secret').notNull(), // encrypted with SESSION_ENCRYPTION_KEY
+  enabledAt: integer('enabled_at', { mode: 'timestamp' }), // null until the enrollment is confirmed
+  lastUsedStep: integer('last_used_step'), // last accepted TOTP time step, against replays
+});
+
+const mfaRecoveryCodes = sqliteTable(
+  'mfa_recovery_codes',
+  {
+    id: text('id').primaryKey().default(sql`(lower(hex(randomblob(12))))`),
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    codeHash: text('code_hash').notNull().unique(), // HMAC-SHA256 of the code
+    usedAt: integer('used_at', { mode: 'timestamp' }),
+  },
+  (table) => [index('idx_mfa_recovery_codes_user_id').on(table.userId)],
+);
+
+// ============= API Keys =============
+
+const apiKeys = sqliteTable(
+  'api_keys',
+  {
+    id: text('id').primaryKey().default(sql`(lower(hex(randomblob(12))))`),
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    name: text('name').notNull(),
+    prefix: text('prefix').notNull(), // first characters of the key, shown to tell keys apart
+    keyHash: text('key_hash').notNull().unique(), // HMAC-SHA256 of the key
+    scopes: text('scopes', { mode: 'json' }).$type<string[]>().notNull().default([]),
+    expiresAt: integer('expires_at', { mode: 'timestamp' }), // null for keys that do not expire
+    lastUsedAt: integer('last_used_at', { mode: 'timestamp' }),
+  },
+  (table) => [index('idx_api_keys_user_id').on(table.userId)],
+);
+
+// ============= Payments =============
+
+const plans = sqliteTable('plans', {
+  id: text('id').primaryKey().default(sql`(lower(hex(randomblob(12))))`),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+  slug: text('slug').notNull().unique(),
+  name: text('name').notNull(),
+  description: text('description').default(''),
+  amount: integer('amount').notNull(), // monthly price in cents
+  currency: text('currency').notNull().default('brl'),
+  trialDays: integer('trial_days').notNull().default(0),
+  active: integer('active', { mode: 'boolean' }).notNull().default(true),
+});
+
+const subscriptions = sqliteTable(
+  'subscriptions',
+  {
+    id: text('id').primaryKey().default(sql`(lower(hex(randomblob(12))))`),
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+    updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    planId: text('plan_id')
+      .notNull()
+      .references(() => plans.id),
+    status: text('status', { enum: ['trialing', 'active', 'past_due', 'canceled'] }).notNull(),
+    paymentMethod: text('payment_method', { enum: ['pix', 'card'] })
+      .notNull()
+      .default('pix'),
+    currentPeriodStart: integer('current_period_start', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+    currentPeriodEnd: integer('current_period_end', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+    cancelAtPeriodEnd: integer('cancel_at_period_end', { mode: 'boolean' }).notNull().default(false),
+    canceledAt: integer('canceled_at', { mode: 'timestamp' }),
+    renewalAttempts: integer('renewal_attempts').notNull().default(0),
+    lastRenewalAttemptAt: integer('last_renewal_attempt_at', { mode: 'timestamp' }),
+  },
+  (table) => [
+    index('idx_subscriptions_user_id').on(table.userId),
+    index('idx_subscriptions_status').on(table.status, table.currentPeriodEnd),
+  ],
+);
+
+const payments = sqliteTable(
+  'payments',
+  {
+    id: text('id').primaryKey().default(sql`(lower(hex(randomblob(12))))`),
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+    updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    amount: integer('amount').notNull(), // in cents
+    currency: text('currency').notNull().default('brl'), // ISO 4217, lowercase
+    provider: text('provider', { enum: ['abacate', 'stripe'] }).notNull(),
+    providerId: text('provider_id').notNull(), // charge id on the provider side
+    status: text('status', { enum: ['pending', 'completed', 'failed', 'refunded'] })
+      .notNull()
+      .default('pending'),
+    refundedAmount: integer('refunded_amount').notNull().default(0), // in cents
+    purpose: text('purpose', { enum: ['one_off', 'subscription'] })
+      .notNull()
+      .default('one_off'),
+    subscriptionId: text('subscription_id').references(() => subscriptions.id, { onDelete: 'set null' }),
+    failureReason: text('failure_reason'),
+    completedAt: integer('completed_at', { mode: 'timestamp' }),
+  },
+  (table) => [
+    index('idx_payments_user_id').on(table.userId),
+    index('idx_payments_status').on(table.status),
+    index('idx_payments_subscription_id').on(table.subscriptionId),
+    index('idx_payments_created_at').on(table.createdAt),
+    uniqueIndex('idx_payments_provider').on(table.provider, table.providerId),
+  ],
+);
+
+const paymentEvents = sqliteTable(
+  'payment_events',
+  {
+    id: text('id').primaryKey().default(sql`(lower(hex(randomblob(12))))`),
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+    provider: text('provider', { enum: ['abacate', 'stripe'] }).notNull(),
+    eventId: text('event_id').notNull(), // delivery id sent by the provider
+    eventType: text('event_type').notNull(),
+    paymentId: text('payment_id').references(() => payments.id, { onDelete: 'cascade' }),
+    payload: text('payload').notNull(), // raw webhook body
+  },
+  (table) => [
+    uniqueIndex('idx_payment_events_event').on(table.provider, table.eventId),
+    index('idx_payment_events_payment_id').on(table.paymentId),
+  ],
+);
+
+const refunds = sqliteTable(
+  'refunds',
+  {
+    id: text('id').primaryKey().default(sql`(lower(hex(randomblob(12))))`),
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+    paymentId: text('payment_id')
+      .notNull()
+      .references(() => payments.id, { onDelete: 'cascade' }),
+    amount: integer('amount').notNull(), // in cents
+    providerRefundId: text('provider_refund_id').notNull(),
+    reason: text('reason'),
+    requestedBy: text('requested_by').references(() => users.id, { onDelete: 'set null' }),
+  },
+  (table) => [index('idx_refunds_payment_id').on(table.paymentId)],
+);
+
 // Type exports for use in application code
 export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
@@ -41,10 +228,44 @@ export type NewUser = typeof users.$inferInsert;
 export type OAuthAccount = typeof oauthAccounts.$inferSelect;
 export type NewOAuthAccount = typeof oauthAccounts.$inferInsert;
 
+export type Role = typeof roles.$inferSelect;
+export type NewRole = typeof roles.$inferInsert;
+
+export type UserRoleAssignment = typeof userRoles.$inferSelect;
+export type NewUserRoleAssignment = typeof userRoles.$inferInsert;
+
+export type UserMfa = typeof userMfa.$inferSelect;
+export type NewUserMfa = typeof userMfa.$inferInsert;
+
+export type MfaRecoveryCode = typeof mfaRecoveryCodes.$inferSelect;
+export type NewMfaRecoveryCode = typeof mfaRecoveryCodes.$inferInsert;
+
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type NewApiKey = typeof apiKeys.$inferInsert;
+
+export type Payment = typeof payments.$inferSelect;
+export type NewPayment = typeof payments.$inferInsert;
+
+export type Plan = typeof plans.$inferSelect;
+export type NewPlan = typeof plans.$inferInsert;
+
+export type Subscription = typeof subscriptions.$inferSelect;
+export type NewSubscription = typeof subscriptions.$inferInsert;
+
+export type Refund = typeof refunds.$inferSelect;
+export type NewRefund = typeof refunds.$inferInsert;
+
+export type PaymentEvent = typeof paymentEvents.$inferSelect;
+export type NewPaymentEvent = typeof paymentEvents.$inferInsert;
+
 // ============= Relations =============
 
 export const usersRelations = relations(users, ({ many }) => ({
   oauthAccounts: many(oauthAccounts),
+  userRoles: many(userRoles),
+  apiKeys: many(apiKeys),
+  payments: many(payments),
+  subscriptions: many(subscriptions),
 }));
 
 export const oauthAccountsRelations = relations(oauthAccounts, ({ one }) => ({
@@ -54,13 +275,100 @@ export const oauthAccountsRelations = relations(oauthAccounts, ({ one }) => ({
   }),
 }));
 
+export const apiKeysRelations = relations(apiKeys, ({ one }) => ({
+  user: one(users, {
+    fields: [apiKeys.userId],
+    references: [users.id],
+  }),
+}));
+
+export const rolesRelations = relations(roles, ({ many }) => ({
+  userRoles: many(userRoles),
+}));
+
+export const userRolesRelations = relations(userRoles, ({ one }) => ({
+  user: one(users, {
+    fields: [userRoles.userId],
+    references: [users.id],
+  }),
+  role: one(roles, {
+    fields: [userRoles.roleId],
+    references: [roles.id],
+  }),
+}));
+
+export const paymentsRelations = relations(payments, ({ one, many }) => ({
+  user: one(users, {
+    fields: [payments.userId],
+    references: [users.id],
+  }),
+  subscription: one(subscriptions, {
+    fields: [payments.subscriptionId],
+    references: [subscriptions.id],
+  }),
+  events: many(paymentEvents),
+  refunds: many(refunds),
+}));
+
+export const refundsRelations = relations(refunds, ({ one }) => ({
+  payment: one(payments, {
+    fields: [refunds.paymentId],
+    references: [payments.id],
+  }),
+  requester: one(users, {
+    fields: [refunds.requestedBy],
+    references: [users.id],
+  }),
+}));
+
+export const plansRelations = relations(plans, ({ many }) => ({
+  subscriptions: many(subscriptions),
+}));
+
+export const subscriptionsRelations = relations(subscriptions, ({ one, many }) => ({
+  user: one(users, {
+    fields: [subscriptions.userId],
+    references: [users.id],
+  }),
+  plan: one(plans, {
+    fields: [subscriptions.planId],
+    references: [plans.id],
+  }),
+  payments: many(payments),
+}));
+
+export const paymentEventsRelations = relations(paymentEvents, ({ one }) => ({
+  payment: one(payments, {
+    fields: [paymentEvents.paymentId],
+    references: [payments.id],
+  }),
+}));
+
 /**
  * Database schema object containing all Drizzle table definitions.
  */
 export const schema = {
   users,
   oauthAccounts,
+  roles,
+  userRoles,
+  userMfa,
+  mfaRecoveryCodes,
+  apiKeys,
+  payments,
+  paymentEvents,
+  refunds,
+  plans,
+  subscriptions,
   // relations
   usersRelations,
   oauthAccountsRelations,
+  rolesRelations,
+  userRolesRelations,
+  apiKeysRelations,
+  paymentsRelations,
+  paymentEventsRelations,
+  refundsRelations,
+  plansRelations,
+  subscriptionsRelations,
 };
@@ -0,0 +1,199 @@
+/**
+ * Error model of the API.
+ * Every error meant for clients is an `ApiError`: an HTTP status, a stable machine-readable `code` (snake_case, e.g.
+ * `user_not_found`) that clients can branch on, a human-readable message and optional details. The error handler
+ * (see `errorHandler` in the middlewares) serializes them as RFC 7807 `application/problem+json`.
+ * Specific errors extend the class of their status, e.g. `class SessionNotFound extends NotFoundError`.
+ */
+
+import { STATUS_CODES } from 'node:http';
+
+/**
+ * RFC 7807 problem details body, with the error code, request ID and details as extension members.
+ */
+export interface ProblemDetails {
+  /** Problem type URI; `about:blank` since the `code` identifies the problem */
+  type: string;
+  /** Reason phrase of the status, e.g. `Not Found` */
+  title: string;
+  status: number;
+  /** Human-readable explanation */
+  detail: string;
+  code: string;
+  /** Path of the request */
+  instance?: string;
+  requestId?: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Base class of the errors returned to clients.
+ */
+export class ApiError extends Error {
+  /**
+   * Creates an API error.
+   *
+   * @param status HTTP status code
+   * @param code Stable machine-readable code
+   * @param message Human-readable message, sent as the problem `detail`
+   * @param details Extra data for clients, e.g. `{ retryAfter: 60 }`
+   */
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+    public details?: Record<string, unknown>,
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+
+  /**
+   * Serializes the error as problem details.
+   *
+   * @param context Path and request ID of the failed request
+   * @returns ProblemDetails Response body
+   */
+  toProblem({ instance, requestId }: { instance?: string; requestId?: string } = {}): ProblemDetails {
+    return {
+      type: 'about:blank',
+      title: STATUS_CODES[this.status] ?? 'Error',
+      status: this.status,
+      detail: this.message,
+      code: this.code,
+      instance,
+      requestId,
+      details: this.details,
+    };
+  }
+}
+
+/**
+ * Malformed or invalid request, with 400 status code.
+ */
+export class BadRequestError extends ApiError {
+  constructor(message = 'Bad request', code = 'bad_request', details?: Record<string, unknown>) {
+    super(400, code, message, details);
+  }
+}
+
+/**
+ * Request without valid credentials, with 401 status code.
+ */
+export class UnauthorizedError extends ApiError {
+  constructor(message = 'Authentication required', code = 'unauthorized', details?: Record<string, unknown>) {
+    super(401, code, message, details);
+  }
+}
+
+/**
+ * Request that needs a paid plan, with 402 status code.
+ */
+export class PaymentRequiredError extends ApiError {
+  constructor(message = 'Payment required', code = 'payment_required', details?: Record<string, unknown>) {
+    super(402, code, message, details);
+  }
+}
+
+/**
+ * Authenticated request that is not allowed, with 403 status code.
+ */
+export class ForbiddenError extends ApiError {
+  constructor(message = 'Access denied', code = 'forbidden', details?: Record<string, unknown>) {
+    super(403, code, message, details);
+  }
+}
+
+/**
+ * Missing resource, with 404 status code.
+ */
+export class NotFoundError extends ApiError {
+  constructor(message = 'Not found', code = 'not_found', details?: Record<string, unknown>) {
+    super(404, code, message, details);
+  }
+}
+
+/**
+ * Request that conflicts with the current state (e.g. a duplicate), with 409 status code.
+ */
+export class ConflictError extends ApiError {
+  constructor(message = 'Conflict', code = 'conflict', details?: Record<string, unknown>) {
+    super(409, code, message, details);
+  }
+}
+
+/**
+ * Well-formed request that cannot be processed, with 422 status code.
+ */
+export class UnprocessableError extends ApiError {
+  constructor(message = 'Unprocessable request', code = 'unprocessable', details?: Record<string, unknown>) {
+    super(422, code, message, details);
+  }
+}
+
+/**
+ * Throttled request, with 429 status code. The error handler sends `retryAfter` as the `Retry-After` header.
+ */
+export class TooManyRequestsError extends ApiError {
+  /**
+   * Creates a too many requests error.
+   *
+   * @param retryAfter Seconds until the client may retry, also sent in the details
+   * @param message Error message to include in response
+   * @param code Error code
+   */
+  constructor(
+    public retryAfter: number,
+    message = 'Too many requests. Please try again later.',
+    code = 'rate_limited',
+  ) {
+    super(429, code, message, { retryAfter });
+  }
+}
+
+/**
+ * Unexpected failure, with 500 status code. Reported to the notifier.
+ */
+export class InternalError extends ApiError {
+  constructor(message = 'Internal server error', code = 'internal_error', details?: Record<string, unknown>) {
+    super(500, code, message, details);
+  }
+}
+
+/**
+ * Feature or dependency that is not available, with 503 status code. Reported to the notifier.
+ */
+export class ServiceUnavailableError extends ApiError {
+  constructor(message = 'Service unavailable', code = 'service_unavailable', details?: Record<string, unknown>) {
+    super(503, code, message, details);
+  }
+}
+
+/* ---------- Shared errors ---------- */
+
+/**
+ * The user of the request (or the one targeted by an admin) does not exist.
+ */
+export class UserNotFoundError extends NotFoundError {
+  constructor() {
+    super('User not found.', 'user_not_found');
+  }
+}
+
+/**
+ * The payment does not exist (or belongs to another user).
+ */
+export class PaymentNotFoundError extends NotFoundError {
+  constructor() {
+    super('Payment not found.', 'payment_not_found');
+  }
+}
+
+/**
+ * The OAuth provider is unknown or not enabled.
+ */
+export class UnsupportedProviderError extends BadRequestError {
+  constructor() {
+    super('Unsupported OAuth provider.', 'unsupported_provider');
+  }
+}
@@ -9,6 +9,10 @@ import { Elysia, SingletonBase, t } from 'elysia';
 /* ---------- Types ---------- */
 import { AppContext } from '../../types/types';
 
+/* ---------- Middlewares ---------- */
+import { requireRole } from '../../middlewares';
+import { UserRole } from '../../services/enums';
+
 /**
  * Creates admin hello route handlers for testing admin functionality.
  * 
@@ -16,5 +20,6 @@ import { AppContext } from '../../types/types';
  */
 export function handlers() {
   return new Elysia<'/hello', AppContext>({ prefix: '/hello' })
+    .use(requireRole(UserRole.ADMIN))
     .get('/', () => 'Hello, Admin!');
 }
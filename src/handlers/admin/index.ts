@@ -1,15 +1,24 @@
 /**
  * Admin handler aggregator that combines all admin-only routes.
- * These endpoints require authentication and admin role.
+ * These endpoints require authentication (and 2FA when `ADMIN_REQUIRE_MFA=true`); each group checks the permissions of its routes.
+ * API keys need the `admin` scope (and are rejected when 2FA is required).
  */
 
 import Elysia from "elysia";
 import * as hello from "./hello";
-import { adminMiddleware } from "../../middlewares";
+import * as payments from "./payments";
+import * as roles from "./roles";
+import * as users from "./users";
+import { ApiKeyScope } from "../../services/enums";
+import { requireAuth, requireMfa, requireScope } from "../../middlewares";
 
 /**
- * Combined admin handlers with /admin prefix and admin middleware applied.
+ * Combined admin handlers with /admin prefix, requiring an authenticated user.
  */
 export const handlers = new Elysia({ prefix: '/admin' })
-  .derive(adminMiddleware)
-  .use(hello.handlers());
\ No newline at end of file
+  .use(process.env.ADMIN_REQUIRE_MFA === 'true' ? requireMfa() : requireAuth())
+  .use(requireScope(ApiKeyScope.ADMIN))
+  .use(hello.handlers())
+  .use(payments.handlers())
+  .use(roles.handlers())
+  .use(users.handlers());
\ No newline at end of file
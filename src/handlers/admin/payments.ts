@@ -0,0 +1,168 @@
+/**
+ * Admin payment handlers for browsing payments, issuing refunds and exporting reports.
+ * Reading requires `payments.read`; refunds and exports require their own permission.
+ */
+
+/* ---------- External ---------- */
+import { Elysia, t } from 'elysia';
+import { and, count, desc, eq, gte, lte, type SQL } from 'drizzle-orm';
+
+/* ---------- Types ---------- */
+import { AppContext } from '../../types/types';
+
+/* ---------- Middlewares ---------- */
+import { permissionMiddleware, requirePermission } from '../../middlewares';
+
+/* ---------- Errors ---------- */
+import { PaymentNotFoundError } from '../../errors';
+
+/* ---------- Database ---------- */
+import { schema, type Payment } from '../../db/schema';
+
+/* ---------- Services ---------- */
+import { PaymentStatus, Permission } from '../../services/enums';
+
+/**
+ * Columns written to the CSV export, in order.
+ */
+const CSV_COLUMNS = [
+  'id',
+  'createdAt',
+  'updatedAt',
+  'userId',
+  'amount',
+  'refundedAmount',
+  'currency',
+  'provider',
+  'providerId',
+  'status',
+  'purpose',
+  'subscriptionId',
+  'failureReason',
+  'completedAt',
+] as const satisfies readonly (keyof Payment)[];
+
+/**
+ * Creates admin payment route handlers.
+ *
+ * @returns Elysia instance with /payments prefix and payment management routes
+ */
+export function handlers() {
+  return new Elysia<'/payments', AppContext>({ prefix: '/payments' })
+    .use(requirePermission(Permission.PAYMENTS_READ))
+    /** List payments of every user, newest first, filtered by status, user and date range */
+    .get('/', async ({ query, db }) => {
+      const { page = 1, limit = 20 } = query;
+      const where = filters(query);
+
+      const [items, [{ total }]] = await Promise.all([
+        db
+          .select()
+          .from(schema.payments)
+          .where(where)
+          .orderBy(desc(schema.payments.createdAt))
+          .limit(limit)
+          .offset((page - 1) * limit),
+        db.select({ total: count() }).from(schema.payments).where(where),
+      ]);
+
+      return { items, page, limit, total };
+    }, { query: schemas.listPayments })
+    /** Export the payments matching the same filters as CSV */
+    .get('/export', async ({ query, db, set }) => {
+      const items = await db
+        .select()
+        .from(schema.payments)
+        .where(filters(query))
+        .orderBy(desc(schema.payments.createdAt));
+
+      set.headers['content-type'] = 'text/csv; charset=utf-8';
+      set.headers['content-disposition'] = `attachment; filename="payments-${new Date().toISOString().slice(0, 10)}.csv"`;
+
+      return toCsv(items);
+    }, { query: schemas.exportPayments, beforeHandle: permissionMiddleware(Permission.PAYMENTS_EXPORT) })
+    /** Get a single payment with its user, provider event history and refunds */
+    .get('/:id', async ({ params, db }) => {
+      const payment = await db.query.payments.findFirst({
+        where: (payments, { eq }) => eq(payments.id, params.id),
+        with: {
+          user: { columns: { id: true, email: true, name: true } },
+          events: { orderBy: (events, { asc }) => asc(events.createdAt) },
+          refunds: { orderBy: (refunds, { asc }) => asc(refunds.createdAt) },
+        },
+      });
+      if (!payment) throw new PaymentNotFoundError();
+
+      return payment;
+    })
+    /** Refund a completed payment, fully or partially, through its provider */
+    .post('/:id/refund', async ({ params, body, db, services, userId }) => {
+      const payment = await db.query.payments.findFirst({
+        where: (payments, { eq }) => eq(payments.id, params.id),
+      });
+      if (!payment) throw new PaymentNotFoundError();
+
+      return services.payments.records.refundPayment(
+        { db, services },
+        { payment, amount: body.amount, reason: body.reason, requestedBy: userId },
+      );
+    }, { body: schemas.refund, beforeHandle: permissionMiddleware(Permission.PAYMENTS_REFUND) });
+}
+
+/**
+ * Builds the SQL filter shared by the list and export routes.
+ */
+function filters({ status, userId, from, to }: { status?: PaymentStatus; userId?: string; from?: Date; to?: Date }) {
+  const conditions: SQL[] = [];
+
+  if (status) conditions.push(eq(schema.payments.status, status));
+  if (userId) conditions.push(eq(schema.payments.userId, userId));
+  if (from) conditions.push(gte(schema.payments.createdAt, from));
+  if (to) conditions.push(lte(schema.payments.createdAt, to));
+
+  return and(...conditions);
+}
+
+/**
+ * Serializes payments as CSV (RFC 4180), with dates in ISO 8601.
+ */
+function toCsv(payments: Payment[]): string {
+  const escapeField = (value: unknown) => {
+    if (value === null || value === undefined) return '';
+
+    const text = value instanceof Date ? value.toISOString() : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const rows = payments.map((payment) => CSV_COLUMNS.map((column) => escapeField(payment[column])).join(','));
+
+  return `${[CSV_COLUMNS.join(','), ...rows].join('\r\n')}\r\n`;
+}
+
+/* ---------- Schemas ---------- */
+
+/**
+ * Filters shared by the list and export routes.
+ */
+const filterSchema = {
+  status: t.Optional(t.Enum(PaymentStatus)),
+  userId: t.Optional(t.String()),
+  from: t.Optional(t.Date({ error: 'From must be a valid date' })),
+  to: t.Optional(t.Date({ error: 'To must be a valid date' })),
+};
+
+/**
+ * Collection of validation schemas for admin payment endpoints.
+ */
+const schemas = {
+  listPayments: t.Object({
+    ...filterSchema,
+    page: t.Optional(t.Numeric({ minimum: 1, default: 1 })),
+    limit: t.Optional(t.Numeric({ minimum: 1, maximum: 100, default: 20 })),
+  }),
+  exportPayments: t.Object(filterSchema),
+  refund: t.Object({
+    amount: t.Optional(t.Integer({ minimum: 1, error: 'Amount must be a positive integer number of cents' })),
+    reason: t.Optional(t.String({ maxLength: 500 })),
+  }),
+};
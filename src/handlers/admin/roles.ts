@@ -0,0 +1,143 @@
+/**
+ * Admin role handlers for managing roles and the permissions they grant.
+ * These endpoints require the `roles.manage` permission.
+ */
+
+/* ---------- External ---------- */
+import { Elysia, t } from 'elysia';
+
+/* ---------- Types ---------- */
+import type { AppContext, Services } from '../../types/types';
+
+/* ---------- Middlewares ---------- */
+import { requirePermission } from '../../middlewares';
+
+/* ---------- Errors ---------- */
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError } from '../../errors';
+
+/* ---------- Services ---------- */
+import { Permission } from '../../services/enums';
+
+/**
+ * Creates admin role route handlers.
+ * Permission changes apply to the live sessions of the role's users right away.
+ *
+ * @returns Elysia instance with /roles prefix and role management routes
+ */
+export function handlers() {
+  return new Elysia<'/roles', AppContext>({ prefix: '/roles' })
+    .use(requirePermission(Permission.ROLES_MANAGE))
+    /** List roles with their permissions and number of users */
+    .get('/', async ({ db, services }) => {
+      return services.roles.listRoles(db);
+    })
+    /** List every permission that can be granted */
+    .get('/permissions', () => {
+      return Object.values(Permission);
+    })
+    /** Get a role by ID or slug */
+    .get('/:id', async ({ params, db, services }) => {
+      const role = await services.roles.getRole(db, params.id);
+      if (!role) throw new RoleNotFound();
+
+      return role;
+    })
+    /** Create a role */
+    .post('/', async ({ body, db, services, permissions }) => {
+      assertGrantable(services, permissions, body.permissions);
+      if (await services.roles.getRole(db, body.slug)) throw new RoleAlreadyExists();
+
+      return services.roles.createRole(db, body);
+    }, { body: schemas.createRole })
+    /** Rename a role or change its permissions */
+    .patch('/:id', async ({ params, body, db, services, permissions }) => {
+      const role = await services.roles.getRole(db, params.id);
+      if (!role) throw new RoleNotFound();
+      if (role.system && body.permissions) throw new SystemRole();
+      if (body.permissions) assertGrantable(services, permissions, body.permissions);
+
+      return services.roles.updateRole({ db, services }, { role, data: body });
+    }, { body: schemas.updateRole })
+    /** Delete a role and unassign it from its users */
+    .delete('/:id', async ({ params, db, services }) => {
+      const role = await services.roles.getRole(db, params.id);
+      if (!role) throw new RoleNotFound();
+      if (role.system) throw new SystemRole();
+
+      await services.roles.deleteRole({ db, services }, role);
+
+      return { deleted: true };
+    });
+}
+
+/**
+ * Ensures the caller holds every permission they are granting, so `roles.manage` cannot be
+ * used to escalate (e.g. by granting `*` to a role the caller has).
+ *
+ * @throws CannotGrantPermissions if the caller lacks any of the permissions
+ */
+function assertGrantable(services: Services, granted: string[] | undefined, permissions: string[]) {
+  const missing = permissions.filter((permission) => !services.roles.hasPermissions(granted, [permission]));
+  if (missing.length > 0) throw new CannotGrantPermissions(missing);
+}
+
+/* ---------- Errors ---------- */
+class RoleNotFound extends NotFoundError {
+  name = 'RoleNotFoundError';
+
+  constructor() {
+    super('Role not found.', 'role_not_found');
+  }
+}
+
+class RoleAlreadyExists extends ConflictError {
+  name = 'RoleAlreadyExistsError';
+
+  constructor() {
+    super('A role with this slug already exists.', 'role_exists');
+  }
+}
+
+class CannotGrantPermissions extends ForbiddenError {
+  name = 'CannotGrantPermissionsError';
+
+  constructor(permissions: string[]) {
+    super(
+      `You cannot grant permissions you do not have: ${permissions.join(', ')}`,
+      'cannot_grant_permissions',
+      { permissions },
+    );
+  }
+}
+
+class SystemRole extends BadRequestError {
+  name = 'SystemRoleError';
+
+  constructor() {
+    super('Built-in roles cannot be deleted and their permissions cannot be changed.', 'system_role');
+  }
+}
+
+/* ---------- Schemas ---------- */
+
+/**
+ * Permissions granted by a role.
+ */
+const permissionsSchema = t.Array(t.Enum(Permission), { uniqueItems: true });
+
+/**
+ * Collection of validation schemas for admin role endpoints.
+ */
+const schemas = {
+  createRole: t.Object({
+    slug: t.String({ pattern: '^[a-z0-9-]{2,32}$', error: 'Slug must be 2-32 lowercase letters, digits or dashes' }),
+    name: t.String({ minLength: 1, maxLength: 100 }),
+    description: t.Optional(t.String({ maxLength: 500 })),
+    permissions: permissionsSchema,
+  }),
+  updateRole: t.Object({
+    name: t.Optional(t.String({ minLength: 1, maxLength: 100 })),
+    description: t.Optional(t.String({ maxLength: 500 })),
+    permissions: t.Optional(permissionsSchema),
+  }),
+};
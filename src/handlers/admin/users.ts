@@ -0,0 +1,162 @@
+/**
+ * Admin user handlers for managing other users' accounts.
+ * Reading requires `users.read`; each change requires its own permission.
+ */
+
+/* ---------- External ---------- */
+import { Elysia, t } from 'elysia';
+
+/* ---------- Types ---------- */
+import { AppContext } from '../../types/types';
+
+/* ---------- Middlewares ---------- */
+import { permissionMiddleware, requirePermission } from '../../middlewares';
+
+/* ---------- Errors ---------- */
+import { BadRequestError, ForbiddenError, UnprocessableError, UserNotFoundError } from '../../errors';
+
+/* ---------- Services ---------- */
+import { Permission, UserRole, UserStatus } from '../../services/enums';
+
+/**
+ * Creates admin user route handlers.
+ * Admins cannot change their own role, status or account, so they cannot lock themselves out,
+ * and can only grant roles whose permissions they already have.
+ *
+ * @returns Elysia instance with /users prefix and user management routes
+ */
+export function handlers() {
+  return new Elysia<'/users', AppContext>({ prefix: '/users' })
+    .use(requirePermission(Permission.USERS_READ))
+    /** Search users by email, name, status, role and linked provider, newest first */
+    .get('/', async ({ query, db, services }) => {
+      return services.users.searchUsers(db, query);
+    }, { query: schemas.searchUsers })
+    /** Get a user with their linked login methods and assigned roles */
+    .get('/:id', async ({ params, db, services }) => {
+      const user = await services.users.getUser(db, params.id);
+      if (!user) throw new UserNotFoundError();
+
+      return { ...user, roles: await services.roles.getUserRoles(db, user.id) };
+    })
+    /** Change a user's role */
+    .patch('/:id/role', async ({ params, body, db, services, userId, permissions }) => {
+      if (params.id === userId) throw new CannotModifySelf();
+
+      const role = await services.roles.getRole(db, body.role);
+      if (role && !services.roles.hasPermissions(permissions, role.permissions)) throw new CannotGrantRole(role.slug);
+
+      const user = await services.users.getUser(db, params.id);
+      if (!user || user.deletedAt) throw new UserNotFoundError();
+
+      return services.users.setRole({ db, services }, { user, role: body.role, adminId: userId, reason: body.reason });
+    }, { body: schemas.setRole, beforeHandle: permissionMiddleware(Permission.USERS_ROLES) })
+    /** Replace the roles assigned to a user; the system role matching their role is kept */
+    .put('/:id/roles', async ({ params, body, db, services, userId, permissions }) => {
+      if (params.id === userId) throw new CannotModifySelf();
+
+      const user = await services.users.getUser(db, params.id);
+      if (!user || user.deletedAt) throw new UserNotFoundError();
+
+      const roles = await Promise.all(body.roles.map((slug) => services.roles.getRole(db, slug)));
+      const unknown = body.roles.filter((_, i) => !roles[i]);
+      if (unknown.length > 0) throw new UnknownRoles(unknown);
+
+      const assigned = roles.filter((role) => role !== undefined);
+      const ungrantable = assigned.find((role) => !services.roles.hasPermissions(permissions, role.permissions));
+      if (ungrantable) throw new CannotGrantRole(ungrantable.slug);
+
+      return services.roles.setUserRoles({ db, services }, { user, roles: assigned, adminId: userId });
+    }, { body: schemas.setRoles, beforeHandle: permissionMiddleware(Permission.USERS_ROLES) })
+    /** Activate, deactivate, ban or unban a user */
+    .patch('/:id/status', async ({ params, body, db, services, userId }) => {
+      if (params.id === userId) throw new CannotModifySelf();
+
+      const user = await services.users.getUser(db, params.id);
+      if (!user || user.deletedAt) throw new UserNotFoundError();
+
+      return services.users.setStatus(
+        { db, services },
+        { user, status: body.status, adminId: userId, reason: body.reason },
+      );
+    }, { body: schemas.setStatus, beforeHandle: permissionMiddleware(Permission.USERS_STATUS) })
+    /** Soft-delete a user and log them out everywhere */
+    .delete('/:id', async ({ params, body, db, services, userId }) => {
+      if (params.id === userId) throw new CannotModifySelf();
+
+      const user = await services.users.getUser(db, params.id);
+      if (!user || user.deletedAt) throw new UserNotFoundError();
+
+      return services.users.softDelete({ db, services }, { user, adminId: userId, reason: body?.reason });
+    }, { body: schemas.deleteUser, beforeHandle: permissionMiddleware(Permission.USERS_DELETE) })
+    /** Log a user out of every device */
+    .delete('/:id/sessions', async ({ params, services }) => {
+      const revoked = await services.auth.sessions.deleteUserSessions(params.id);
+
+      return { revoked };
+    }, { beforeHandle: permissionMiddleware(Permission.USERS_SESSIONS) });
+}
+
+/* ---------- Errors ---------- */
+class CannotModifySelf extends BadRequestError {
+  name = 'CannotModifySelfError';
+
+  constructor() {
+    super('You cannot change your own account from the admin API.', 'cannot_modify_self');
+  }
+}
+
+class CannotGrantRole extends ForbiddenError {
+  name = 'CannotGrantRoleError';
+
+  constructor(slug: string) {
+    super(`You cannot grant the role ${slug}: it has permissions you do not have.`, 'cannot_grant_role', { role: slug });
+  }
+}
+
+class UnknownRoles extends UnprocessableError {
+  name = 'UnknownRolesError';
+
+  constructor(slugs: string[]) {
+    super(`Unknown roles: ${slugs.join(', ')}`, 'unknown_roles', { roles: slugs });
+  }
+}
+
+/* ---------- Schemas ---------- */
+
+/**
+ * Reason attached to account changes.
+ */
+const reasonSchema = t.String({ minLength: 1, maxLength: 500, error: 'Reason must be 1-500 characters long' });
+
+/**
+ * Collection of validation schemas for admin user endpoints.
+ */
+const schemas = {
+  searchUsers: t.Object({
+    email: t.Optional(t.String()),
+    name: t.Optional(t.String()),
+    status: t.Optional(t.Enum(UserStatus)),
+    role: t.Optional(t.Enum(UserRole)),
+    provider: t.Optional(t.String()),
+    includeDeleted: t.Optional(t.BooleanString()),
+    page: t.Optional(t.Numeric({ minimum: 1, default: 1 })),
+    limit: t.Optional(t.Numeric({ minimum: 1, maximum: 100, default: 20 })),
+  }),
+  setRole: t.Object({
+    role: t.Enum(UserRole),
+    reason: t.Optional(reasonSchema),
+  }),
+  setRoles: t.Object({
+    roles: t.Array(t.String(), { uniqueItems: true, maxItems: 20 }),
+  }),
+  setStatus: t.Object({
+    status: t.Enum(UserStatus),
+    reason: reasonSchema,
+  }),
+  deleteUser: t.Optional(
+    t.Object({
+      reason: t.Optional(reasonSchema),
+    }),
+  ),
+};
@@ -0,0 +1,65 @@
+/**
+ * Private API key handlers for the current user.
+ * These endpoints require a session: API keys cannot manage keys.
+ */
+
+import Elysia, { t } from "elysia";
+import { AppContext } from "../../types/types";
+import { ApiKeyScope } from "../../services/enums";
+import { activeUserMiddleware, requireSession } from "../../middlewares";
+import { ForbiddenError, NotFoundError } from "../../errors";
+
+/**
+ * Creates private API key route handlers requiring a session.
+ * Keys are sent as `Authorization: Bearer ak_...` and act on behalf of the user within their scopes.
+ * The plain-text key is only returned once, when it is created.
+ *
+ * @returns Elysia instance with /me/api-keys prefix and API key routes
+ */
+export function handlers() {
+    return new Elysia<"/me/api-keys", AppContext>({ prefix: "/me/api-keys" })
+        .use(requireSession())
+        /** List the current user's API keys (never their values) */
+        .get("/", async ({ services, db, userId }) => {
+            return services.auth.apiKeys.listKeys(db, userId);
+        })
+        /** Create an API key; its value is only shown in this response */
+        .post("/", async ({ body, services, db, userId, permissions }) => {
+            // Keys with the admin scope are only useful to users whose roles grant permissions
+            if (body.scopes.includes(ApiKeyScope.ADMIN) && permissions.length === 0) {
+                throw new ForbiddenError("Only users with admin permissions can create keys with the admin scope", "missing_permission");
+            }
+
+            const expiresAt = body.expiresInDays ? new Date(Date.now() + body.expiresInDays * 24 * 60 * 60 * 1000) : undefined;
+
+            return services.auth.apiKeys.createKey(db, userId, { name: body.name, scopes: body.scopes, expiresAt });
+        }, { body: schemas.createKey, beforeHandle: activeUserMiddleware })
+        /** Revoke one of the current user's API keys */
+        .delete("/:id", async ({ params, services, db, userId }) => {
+            if (!await services.auth.apiKeys.revokeKey(db, userId, params.id)) throw new ApiKeyNotFound();
+
+            return { message: "API key revoked" };
+        });
+}
+
+/* ---------- Errors ---------- */
+class ApiKeyNotFound extends NotFoundError {
+    name = "ApiKeyNotFoundError";
+
+    constructor() {
+        super("API key not found.", "api_key_not_found");
+    }
+}
+
+/* ---------- Schemas ---------- */
+
+/**
+ * Collection of validation schemas for API key endpoints.
+ */
+const schemas = {
+    createKey: t.Object({
+        name: t.String({ minLength: 1, maxLength: 100 }),
+        scopes: t.Array(t.Enum(ApiKeyScope), { minItems: 1, error: "Pick at least one valid scope" }),
+        expiresInDays: t.Optional(t.Integer({ minimum: 1, maximum: 365 })),
+    }),
+};
@@ -5,15 +5,58 @@
 
 import Elysia from "elysia";
 import { AppContext } from "../../types/types";
+import { requireSession } from "../../middlewares";
+import { NotFoundError } from "../../errors";
 
 /**
  * Private authentication route handlers requiring authentication.
- * Currently provides logout functionality.
+ * Provides logout and management of the user's sessions (devices).
+ * Sessions other than the current one are addressed by their hashed handle, never by session ID.
+ * API keys are not accepted.
  */
 export const handlers = new Elysia<"/auth", AppContext>({ prefix: "/auth" })
+    .use(requireSession())
     .get("/logout", async ({ services, sessionId }) => {
-        if (!sessionId) throw new Error("No active session");
         await services.auth.sessions.deleteSession(sessionId);
 
         return { message: "Logged out successfully" };
-    });
\ No newline at end of file
+    })
+    /** List the current user's sessions, most recently used first */
+    .get("/sessions", async ({ services, userId, sessionId }) => {
+        const sessions = await services.auth.sessions.listUserSessions(userId);
+
+        return sessions.map(({ sessionId: id, handle, data }) => ({
+            id: handle,
+            current: id === sessionId,
+            userAgent: data.device?.userAgent,
+            ip: data.device?.ip,
+            createdAt: data.device?.createdAt,
+            lastSeen: data.device?.lastSeen,
+            expiresAt: data.exp,
+        }));
+    })
+    /** Revoke one of the current user's sessions */
+    .delete("/sessions/:id", async ({ params, services, userId }) => {
+        const sessions = await services.auth.sessions.listUserSessions(userId);
+        const session = sessions.find(({ handle }) => handle === params.id);
+        if (!session) throw new SessionNotFound();
+
+        await services.auth.sessions.deleteSession(session.sessionId);
+
+        return { message: "Session revoked" };
+    })
+    /** Revoke every session of the current user except this one ("log out other devices") */
+    .delete("/sessions", async ({ services, userId, sessionId }) => {
+        const revoked = await services.auth.sessions.deleteUserSessions(userId, { except: sessionId });
+
+        return { revoked };
+    });
+
+/* ---------- Errors ---------- */
+class SessionNotFound extends NotFoundError {
+    name = "SessionNotFoundError";
+
+    constructor() {
+        super("Session not found.", "session_not_found");
+    }
+}
@@ -1,15 +1,25 @@
 /**
  * Private handler aggregator that combines all authenticated routes.
- * These endpoints require valid authentication tokens.
+ * These endpoints require a valid session or API key.
  */
 
 import Elysia from "elysia";
+import * as apikeys from "./apikeys";
 import * as auth from "./auth";
-import { authMiddleware } from "../../middlewares";
+import * as me from "./me";
+import * as mfa from "./mfa";
+import * as payments from "./payments";
+import * as subscriptions from "./subscriptions";
+import { requireAuth } from "../../middlewares";
 
 /**
  * Combined private handlers with authentication middleware applied.
  */
 export const handlers = new Elysia()
-    .derive(authMiddleware)
-    .use(auth.handlers);
\ No newline at end of file
+    .use(requireAuth())
+    .use(auth.handlers)
+    .use(me.handlers())
+    .use(apikeys.handlers())
+    .use(mfa.handlers())
+    .use(payments.handlers())
+    .use(subscriptions.handlers());
\ No newline at end of file
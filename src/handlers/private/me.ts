@@ -0,0 +1,130 @@
+/**
+ * Private profile handlers for the current user's own account.
+ * These endpoints require valid authentication tokens.
+ */
+
+import Elysia, { t } from "elysia";
+import { AppContext } from "../../types/types";
+import { ApiKeyScope } from "../../services/enums";
+import { requireRecentAuth, requireScope, scopeMiddleware } from "../../middlewares";
+import { BadRequestError, ConflictError, NotFoundError, UnsupportedProviderError, UserNotFoundError } from "../../errors";
+
+/**
+ * Creates private profile route handlers requiring authentication.
+ * Users can read and edit their profile, link and unlink login methods and delete their account.
+ * API keys need the `profile.read` scope, and `profile.write` for everything but reading. Unlinking login methods and
+ * deleting the account are irreversible, so they need a session that logged in (or entered a 2FA code) in the last
+ * 15 minutes, never an API key.
+ *
+ * @returns Elysia instance with /me prefix and profile routes
+ */
+export function handlers() {
+    return new Elysia<"/me", AppContext>({ prefix: "/me" })
+        .use(requireScope(ApiKeyScope.PROFILE_READ))
+        /** Get the current user's profile and linked login methods */
+        .get("/", async ({ services, db, userId }) => {
+            const user = await services.users.getUser(db, userId);
+            if (!user) throw new UserNotFoundError();
+
+            return {
+                ...services.auth.accounts.toPublicUser(user),
+                createdAt: user.createdAt,
+                providers: user.oauthAccounts.map(({ provider, createdAt }) => ({ provider, linkedAt: createdAt })),
+            };
+        })
+        /** Update the current user's name and picture */
+        .patch("/", async ({ body, services, db, userId }) => {
+            const user = await services.users.updateProfile(db, userId, body);
+            if (!user) throw new UserNotFoundError();
+
+            return services.auth.accounts.toPublicUser(user);
+        }, { body: schemas.updateProfile, beforeHandle: scopeMiddleware(ApiKeyScope.PROFILE_WRITE) })
+        /**
+         * Start linking an OAuth provider to the current user.
+         * Returns the URL to open (e.g. in a popup); its callback hands back a link code to confirm.
+         */
+        .post("/link/:provider", async ({ params, services, userId }) => {
+            const { provider } = params;
+            if (!services.auth.oauth.isConfigured(provider)) throw new UnsupportedProviderError();
+
+            const token = await services.auth.oauth.createLinkToken(userId);
+
+            return { url: `${process.env.BASE_URL}/auth/oauth/${provider}?link=${token}` };
+        }, { beforeHandle: scopeMiddleware(ApiKeyScope.PROFILE_WRITE) })
+        /**
+         * Finish a link: attach the provider account returned by the callback (as `linkCode`, or `link_code` in
+         * redirect mode). Only the user who started the link can confirm it, so a link URL opened by someone else
+         * never attaches their account.
+         */
+        .post("/link/:provider/confirm", async ({ params, body, services, db, userId }) => {
+            const link = await services.auth.oauth.consumePendingLink(body.code);
+            if (!link || link.userId !== userId || link.provider !== params.provider) throw new InvalidLinkCode();
+
+            const user = await services.auth.accounts.linkAccount(db, link);
+
+            return { user: services.auth.accounts.toPublicUser(user), linked: link.provider };
+        }, { body: schemas.confirmLink, beforeHandle: scopeMiddleware(ApiKeyScope.PROFILE_WRITE) })
+        .use(requireRecentAuth())
+        /** Unlink a login method; the last one cannot be removed */
+        .delete("/oauth/:provider", async ({ params, services, db, userId }) => {
+            const user = await services.users.getUser(db, userId);
+            if (!user) throw new UserNotFoundError();
+
+            const accounts = user.oauthAccounts.filter(({ provider }) => provider === params.provider);
+            if (accounts.length === 0) throw new ProviderNotLinked();
+            if (accounts.length === user.oauthAccounts.length) throw new LastLoginMethod();
+
+            await services.users.unlinkProvider({ db, services }, accounts);
+
+            return { message: "Login method unlinked" };
+        })
+        /** Permanently delete the current user's account, files and sessions */
+        .delete("/", async ({ services, db, userId }) => {
+            const user = await services.users.getUser(db, userId);
+            if (!user) throw new UserNotFoundError();
+
+            await services.users.deleteAccount({ db, services }, user);
+
+            return { message: "Account deleted" };
+        });
+}
+
+/* ---------- Errors ---------- */
+class ProviderNotLinked extends NotFoundError {
+    name = "ProviderNotLinkedError";
+
+    constructor() {
+        super("This login method is not linked to your account.", "provider_not_linked");
+    }
+}
+
+class InvalidLinkCode extends BadRequestError {
+    name = "InvalidLinkCodeError";
+
+    constructor() {
+        super("Invalid or expired link code. Please link the account again.", "invalid_link_code");
+    }
+}
+
+class LastLoginMethod extends ConflictError {
+    name = "LastLoginMethodError";
+
+    constructor() {
+        super("You cannot unlink your only login method.", "last_login_method");
+    }
+}
+
+/* ---------- Schemas ---------- */
+
+/**
+ * Collection of validation schemas for profile endpoints.
+ */
+const schemas = {
+    updateProfile: t.Object({
+        name: t.Optional(t.String({ minLength: 1, maxLength: 100, error: "Name must be 1-100 characters long" })),
+        picture: t.Optional(t.String({ format: "uri", maxLength: 2048, error: "Picture must be a valid URL" })),
+    }, { minProperties: 1 }),
+    confirmLink: t.Object({
+        code: t.String({ minLength: 1, maxLength: 128, error: "Link code is required" }),
+    }),
+};
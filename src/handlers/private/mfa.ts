@@ -0,0 +1,71 @@
+/**
+ * Private two-factor authentication handlers for the current user.
+ * These endpoints require valid authentication tokens.
+ */
+
+import Elysia, { t } from "elysia";
+import { AppContext } from "../../types/types";
+import { rateLimitMiddleware, requireSession } from "../../middlewares";
+import { UserNotFoundError } from "../../errors";
+import { InvalidMfaCodeError } from "../../services/auth/mfa";
+
+/**
+ * Creates private 2FA route handlers requiring authentication.
+ * Users enroll an authenticator app (TOTP), get one-time recovery codes and can disable 2FA.
+ * Once enabled, every login (OAuth or password) must be completed with `POST /auth/mfa/verify`.
+ * API keys are not accepted.
+ *
+ * @returns Elysia instance with /me/mfa prefix and 2FA routes
+ */
+export function handlers() {
+    return new Elysia<"/me/mfa", AppContext>({ prefix: "/me/mfa" })
+        .use(requireSession())
+        /** Get whether 2FA is enabled and how many recovery codes are left */
+        .get("/", async ({ services, db, userId, mfaVerified }) => {
+            const status = await services.auth.mfa.getStatus(db, userId);
+
+            return { ...status, sessionVerified: mfaVerified };
+        })
+        /** Start a TOTP enrollment; returns the secret and the `otpauth://` URI to show as a QR code */
+        .post("/totp", async ({ services, db, userId }) => {
+            const user = await services.users.getUser(db, userId);
+            if (!user) throw new UserNotFoundError();
+
+            return services.auth.mfa.startEnrollment(db, user);
+        })
+        /** Confirm the enrollment with a code from the app, enabling 2FA; returns the recovery codes, shown once */
+        .post("/totp/confirm", async ({ body, services, db, userId, sessionId }) => {
+            const recoveryCodes = await services.auth.mfa.confirmEnrollment(db, userId, body.code);
+
+            // The current session just proved the second factor
+            await services.auth.sessions.updateSession(sessionId, { mfaAt: Date.now() });
+
+            return { recoveryCodes };
+        }, { body: schemas.code, beforeHandle: rateLimitMiddleware("mfa-code") })
+        /** Replace the recovery codes; requires a current code */
+        .post("/recovery-codes", async ({ body, services, db, userId }) => {
+            if (!await services.auth.mfa.verify(db, userId, body.code)) throw new InvalidMfaCodeError();
+
+            return { recoveryCodes: await services.auth.mfa.regenerateRecoveryCodes(db, userId) };
+        }, { body: schemas.code, beforeHandle: rateLimitMiddleware("mfa-code") })
+        /** Disable 2FA; requires a current code */
+        .delete("/", async ({ body, services, db, userId }) => {
+            if (!await services.auth.mfa.verify(db, userId, body.code)) throw new InvalidMfaCodeError();
+
+            await services.auth.mfa.disable(db, userId);
+            await services.auth.sessions.updateUserSessions(userId, { mfaAt: undefined });
+
+            return { message: "Two-factor authentication disabled" };
+        }, { body: schemas.code, beforeHandle: rateLimitMiddleware("mfa-code") });
+}
+
+/* ---------- Schemas ---------- */
+
+/**
+ * Collection of validation schemas for 2FA endpoints.
+ */
+const schemas = {
+    code: t.Object({
+        code: t.String({ minLength: 6, maxLength: 32, error: "Code must be a 6-digit code or a recovery code" }),
+    }),
+};
@@ -0,0 +1,102 @@
+/**
+ * Private payment handlers for creating charges and reading payment history.
+ * These endpoints require valid authentication tokens.
+ */
+
+import Elysia, { t } from "elysia";
+import { and, count, desc, eq } from "drizzle-orm";
+import { AppContext } from "../../types/types";
+import { schema } from "../../db/schema";
+import { ApiKeyScope, PaymentMethod, PaymentStatus } from "../../services/enums";
+import { activeUserMiddleware, requireScope, scopeMiddleware } from "../../middlewares";
+import { PaymentNotFoundError } from "../../errors";
+
+/**
+ * Creates private payment route handlers requiring authentication.
+ * Creating a charge additionally requires an active account.
+ * Pix charges go through AbacatePay and card charges through Stripe Checkout.
+ * API keys need the `payments.read` scope, and `payments.write` to create charges.
+ *
+ * @returns Elysia instance with /payments prefix and payment routes
+ */
+export function handlers() {
+    return new Elysia<"/payments", AppContext>({ prefix: "/payments" })
+        .use(requireScope(ApiKeyScope.PAYMENTS_READ))
+        /** Create a charge for the current user with the chosen payment method */
+        .post("/", async ({ body, services, db, userId }) => {
+            const { method, amount } = body;
+            const currency = method === PaymentMethod.PIX ? "brl" : (body.currency ?? "usd");
+
+            const { payment, charge } = await services.payments.records.createPayment(
+                { db, services },
+                { userId, amount, method, currency },
+            );
+
+            return { payment, code: charge.code, qr: charge.qr, url: charge.url };
+        }, { body: schemas.createPayment, beforeHandle: [activeUserMiddleware, scopeMiddleware(ApiKeyScope.PAYMENTS_WRITE)] })
+        /** Create a Pix charge for the current user */
+        .post("/pix", async ({ body, services, db, userId }) => {
+            const { payment, charge } = await services.payments.records.createPayment(
+                { db, services },
+                { userId, amount: body.amount, method: PaymentMethod.PIX, currency: "brl" },
+            );
+
+            return { payment, code: charge.code, qr: charge.qr };
+        }, { body: schemas.createPix, beforeHandle: [activeUserMiddleware, scopeMiddleware(ApiKeyScope.PAYMENTS_WRITE)] })
+        /** Get a single payment owned by the current user */
+        .get("/:id", async ({ params, db, userId }) => {
+            const payment = await db.query.payments.findFirst({
+                where: (payments, { and, eq }) => and(eq(payments.id, params.id), eq(payments.userId, userId)),
+            });
+            if (!payment) throw new PaymentNotFoundError();
+
+            return payment;
+        })
+        /** List the current user's payments, newest first */
+        .get("/", async ({ query, db, userId }) => {
+            const { page = 1, limit = 20, status } = query;
+
+            const where = and(
+                eq(schema.payments.userId, userId),
+                status ? eq(schema.payments.status, status) : undefined,
+            );
+
+            const [items, [{ total }]] = await Promise.all([
+                db.select()
+                    .from(schema.payments)
+                    .where(where)
+                    .orderBy(desc(schema.payments.createdAt))
+                    .limit(limit)
+                    .offset((page - 1) * limit),
+                db.select({ total: count() }).from(schema.payments).where(where),
+            ]);
+
+            return { items, page, limit, total };
+        }, { query: schemas.listPayments });
+}
+
+/* ---------- Schemas ---------- */
+
+/**
+ * Charge amount in cents. AbacatePay requires at least R$ 1,00.
+ */
+const amountSchema = t.Integer({ minimum: 100, maximum: 100_000_000, error: "Amount must be an integer number of cents, at least 100" });
+
+/**
+ * Collection of validation schemas for payment endpoints.
+ */
+const schemas = {
+    createPayment: t.Object({
+        amount: amountSchema,
+        method: t.Enum(PaymentMethod),
+        currency: t.Optional(t.String({ pattern: "^[a-z]{3}$", error: "Currency must be a lowercase ISO 4217 code" })),
+    }),
+    createPix: t.Object({
+        amount: amountSchema,
+    }),
+    listPayments: t.Object({
+        page: t.Optional(t.Numeric({ minimum: 1, default: 1 })),
+        limit: t.Optional(t.Numeric({ minimum: 1, maximum: 100, default: 20 })),
+        status: t.Optional(t.Enum(PaymentStatus)),
+    }),
+};
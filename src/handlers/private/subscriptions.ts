@@ -0,0 +1,108 @@
+/**
+ * Private subscription handlers for subscribing to plans and managing the current subscription.
+ * These endpoints require valid authentication tokens.
+ */
+
+import Elysia, { t } from "elysia";
+import { AppContext } from "../../types/types";
+import { ApiKeyScope, PaymentMethod } from "../../services/enums";
+import { activeUserMiddleware, requireScope, scopeMiddleware } from "../../middlewares";
+import { ConflictError, NotFoundError } from "../../errors";
+
+/**
+ * Creates private subscription route handlers requiring authentication.
+ * Subscribing additionally requires an active account.
+ * API keys need the `subscriptions.read` scope, and `subscriptions.write` to subscribe or cancel.
+ *
+ * @returns Elysia instance with /subscriptions prefix and subscription routes
+ */
+export function handlers() {
+    return new Elysia<"/subscriptions", AppContext>({ prefix: "/subscriptions" })
+        .use(requireScope(ApiKeyScope.SUBSCRIPTIONS_READ))
+        /** Get the current user's subscription */
+        .get("/current", async ({ services, db, userId }) => {
+            const subscription = await services.subscriptions.getCurrentSubscription(db, userId);
+            if (!subscription) throw new SubscriptionNotFound();
+
+            return subscription;
+        })
+        /** Subscribe the current user to a plan */
+        .post("/", async ({ body, services, db, userId, sessionId }) => {
+            const plan = await db.query.plans.findFirst({
+                where: (plans, { and, eq }) => and(eq(plans.slug, body.plan), eq(plans.active, true)),
+            });
+            if (!plan) throw new PlanNotFound();
+
+            const current = await services.subscriptions.getCurrentSubscription(db, userId);
+            if (current) throw new AlreadySubscribed();
+
+            const { subscription, payment, charge } = await services.subscriptions.subscribe(
+                { db, services },
+                { userId, plan, method: body.method ?? PaymentMethod.PIX },
+            );
+
+            // API key requests have no session; the plan is read from the database for them
+            if (sessionId) {
+                await services.auth.sessions.updateSession(sessionId, {
+                    plan: await services.subscriptions.getSessionPlan(db, userId),
+                });
+            }
+
+            return { subscription, payment, code: charge?.code, qr: charge?.qr, url: charge?.url };
+        }, {
+            body: schemas.subscribe,
+            beforeHandle: [activeUserMiddleware, scopeMiddleware(ApiKeyScope.SUBSCRIPTIONS_WRITE)],
+        })
+        /** Cancel the current user's subscription at the end of the paid period */
+        .post("/cancel", async ({ services, db, userId, sessionId }) => {
+            const current = await services.subscriptions.getCurrentSubscription(db, userId);
+            if (!current) throw new SubscriptionNotFound();
+
+            const subscription = await services.subscriptions.cancel(db, current);
+
+            if (sessionId) {
+                await services.auth.sessions.updateSession(sessionId, {
+                    plan: await services.subscriptions.getSessionPlan(db, userId),
+                });
+            }
+
+            return subscription;
+        }, { beforeHandle: scopeMiddleware(ApiKeyScope.SUBSCRIPTIONS_WRITE) });
+}
+
+/* ---------- Errors ---------- */
+class SubscriptionNotFound extends NotFoundError {
+    name = "SubscriptionNotFoundError";
+
+    constructor() {
+        super("No active subscription.", "subscription_not_found");
+    }
+}
+
+class PlanNotFound extends NotFoundError {
+    name = "PlanNotFoundError";
+
+    constructor() {
+        super("Plan not found.", "plan_not_found");
+    }
+}
+
+class AlreadySubscribed extends ConflictError {
+    name = "AlreadySubscribedError";
+
+    constructor() {
+        super("You already have a subscription. Cancel it before subscribing to another plan.", "already_subscribed");
+    }
+}
+
+/* ---------- Schemas ---------- */
+
+/**
+ * Collection of validation schemas for subscription endpoints.
+ */
+const schemas = {
+    subscribe: t.Object({
+        plan: t.String({ minLength: 1, error: "Plan is required" }),
+        method: t.Optional(t.Enum(PaymentMethod, { default: PaymentMethod.PIX })),
+    }),
+};
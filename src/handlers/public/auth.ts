@@ -9,7 +9,22 @@ import { cookie } from "@elysiajs/cookie";
 
 /* ---------- Types ---------- */
 import { AppContext } from '../../types/types';
-import { Provider, UserRole } from '../../services/enums';
+import type { User } from '../../db/schema';
+import { requestDevice } from '../../services/auth/sessions';
+import { FLOW_COOKIE_KEY, FLOW_TTL, type OAuthResult } from '../../services/auth/oauth';
+import { InvalidMfaCodeError, MAX_VERIFY_ATTEMPTS } from '../../services/auth/mfa';
+import { PASSWORDLESS_PROVIDER } from '../../services/auth/passwordless';
+import { rateLimitMiddleware } from '../../middlewares';
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  InternalError,
+  ServiceUnavailableError,
+  TooManyRequestsError,
+  UnauthorizedError,
+  UnsupportedProviderError,
+} from '../../errors';
 
 /**
  * @description
@@ -21,137 +36,265 @@ import { Provider, UserRole } from '../../services/enums';
 export function handlers() {
   return new Elysia<"/auth", AppContext>({ prefix: '/auth' })
     .use(cookie())
-    .get('/oauth/:provider', async ({ params, redirect, services, cookie, sessionId }) => {
+    /** Session of the caller, if they are already logged in (no guard: these routes are public); sessions awaiting 2FA do not count */
+    .derive(async ({ headers, services }) => {
+      const token = headers['authorization']?.replace('Bearer ', '');
+      const session = token ? await services.auth.sessions.getSession(token) : null;
+
+      return { sessionId: session && session.state !== 'pending_mfa' ? token : undefined };
+    })
+    /** OAuth providers available to log in with */
+    .get('/providers', ({ services }) => ({ providers: services.auth.oauth.names() }))
+    /**
+     * Start an OAuth login, or a link when `link` holds a token from `POST /me/link/:provider`.
+     * `mode=redirect` sends a one-time code to `returnTo` (e.g. a native app deep link) instead of posting
+     * the result to the popup's opener; the default mode and `returnTo` come from config.
+     * `rememberMe=true` opens a long-lived "remember me" session.
+     */
+    .get('/oauth/:provider', async ({ params, query, redirect, services, cookie, sessionId }) => {
       if (sessionId) throw new AlreadyLoggedIn();
 
       const { provider } = params;
 
-      const validProvider = Object.values(Provider).includes(provider as Provider);
-      if (!validProvider) throw new UnsupportedProvider();
-
-      const setCookies = (name: string, value: string, exp: number) => {
-        cookie[name].remove();
-        cookie[name].set({
-          secure: true,
-          httpOnly: false,
-          expires: new Date(Date.now() + exp * 1000),
-          value,
-          path: '/',
-          maxAge: exp,
-          sameSite: 'lax',
-        });
-      };
+      if (!services.auth.oauth.isConfigured(provider)) throw new UnsupportedProviderError();
+      if (query.returnTo && !services.auth.oauth.isAllowedReturnTo(query.returnTo)) throw new InvalidReturnTo();
 
-      const redirectUri = await services.auth.oauth.getAuthUrl(provider as Provider, setCookies);
-      return redirect(redirectUri);
-    })
-    .get('/oauth/callback/:provider', async ({ params, query, services, cookie, sessionId, set, db }) => {
+      const { mode, returnTo } = services.auth.oauth.flowOptions(query.mode, query.returnTo);
+      if (mode === 'redirect' && !returnTo) throw new MissingReturnTo();
+
+      const linkUserId = query.link ? await services.auth.oauth.consumeLinkToken(query.link) : undefined;
+      if (linkUserId === null) throw new LinkExpired();
+
+      const { url, state } = await services.auth.oauth.getAuthUrl(provider, { mode, returnTo, linkUserId, rememberMe: query.rememberMe });
+
+      // Binds the callback to this browser; the flow itself stays in Redis
+      cookie[FLOW_COOKIE_KEY].set({
+        value: state,
+        secure: true,
+        httpOnly: true,
+        path: '/',
+        maxAge: FLOW_TTL,
+        sameSite: 'lax',
+      });
+
+      return redirect(url);
+    }, { query: schemas.oauthStart })
+    /** Finish an OAuth login (or link), then hand the result back as the flow's mode says */
+    .get('/oauth/callback/:provider', async ({ params, query, services, cookie, sessionId, set, db, request, server, redirect }) => {
       if (sessionId) throw new AlreadyLoggedIn();
 
       const { provider } = params;
 
-      const validProvider = Object.values(Provider).includes(provider as Provider);
-      if (!validProvider) throw new UnsupportedProvider();
+      if (!services.auth.oauth.isConfigured(provider)) throw new UnsupportedProviderError();
 
       const { code, state } = query;
-      if (!code || !state) throw new Error('Missing code or state in OAuth callback');
+      if (!code || !state) throw new BadRequestError('Missing code or state in OAuth callback', 'invalid_oauth_callback');
 
-      const getCookie = (name: string) => cookie[name].value as string;
+      const flow = await services.auth.oauth.consumeFlow(provider, state as string, cookie[FLOW_COOKIE_KEY].value as string | undefined);
+      cookie[FLOW_COOKIE_KEY].remove();
+      if (!flow) throw new InvalidOAuthState();
 
-      const profile = await services.auth.oauth.exchangeCodeForProfile(
-        provider as Provider,
-        code as string,
-        state as string,
-        getCookie,
-      );
+      const profile = await services.auth.oauth.exchangeCodeForProfile(code as string, flow);
 
-      // Check if this OAuth account (provider + providerId) already exists
-      const oauth = await db.query.oauthAccounts.findFirst({
-        where: (oauthAccounts, { and, eq }) =>
-          and(
-            eq(oauthAccounts.provider, provider),
-            eq(oauthAccounts.providerId, profile.id),
-          ),
-      });
+      // Redirect mode: the result stays server-side behind a one-time code, exchanged with POST /auth/oauth/exchange
+      const respond = async (user: User, { sessionId, mfaRequired }: Omit<OAuthResult, 'userId'>) => {
+        if (flow.mode === 'redirect' && flow.returnTo) {
+          const code = await services.auth.oauth.createExchangeCode({ userId: user.id, sessionId, mfaRequired });
+          return redirect(services.auth.oauth.redirectUrl(flow.returnTo, code));
+        }
 
-      // Find or create user:
-      // - If OAuth account exists, use the linked userId
-      // - Otherwise, try to find user by email (allows linking multiple OAuth providers to same user)
-      // - If no user exists, create a new one
-      let user = oauth
-        ? await db.query.users.findFirst({ where: (users, { eq }) => eq(users.id, oauth.userId) })
-        : await db.query.users.findFirst({ where: (users, { eq }) => eq(users.email, profile.email) });
-
-      if (!user) {
-        // Create new user (first time login)
-        const [newUser] = await db
-          .insert(db._.schema.users)
-          .values({
-            email: profile.email,
-            name: profile.name,
-            picture: profile.picture,
-            status: 'active',
-            role: UserRole.USER,
-          })
-          .returning();
-        user = newUser;
-
-        // Send welcome/registration notification to admins
-        services.notifications.notify('users.registration', {
-          email: user.email,
-          userId: user.id,
-          provider,
-        });
-      }
+        set.headers['content-type'] = 'text/html';
+        return services.auth.oauth.html({ user: services.auth.accounts.toPublicUser(user), sessionId, mfaRequired, returnTo: flow.returnTo });
+      };
 
-      // Prevent banned users from logging in
-      if (user.status === 'banned') throw new BannedUserError();
+      // Explicit link started by a logged-in user: nothing is attached until that user confirms the returned code
+      // with their own credentials (POST /me/link/:provider/confirm), as this browser may not be theirs
+      if (flow.linkUserId) {
+        const linkCode = await services.auth.oauth.createPendingLink({ userId: flow.linkUserId, provider, providerId: profile.id });
+        if (flow.mode === 'redirect' && flow.returnTo) return redirect(services.auth.oauth.redirectUrl(flow.returnTo, linkCode, 'link_code'));
 
-      if (!oauth) {
-        // Link this OAuth provider to the user (supports multiple OAuth accounts per user)
-        await db.insert(db._.schema.oauthAccounts).values({
-          provider: provider as Provider,
-          providerId: profile.id,
-          userId: user.id,
-        });
+        set.headers['content-type'] = 'text/html';
+        return services.auth.oauth.html({ linkCode, provider, returnTo: flow.returnTo });
       }
 
-      // create session
-      sessionId = await services.auth.sessions.createSession({
-        userId: user.id,
-        role: user.role as UserRole,
-        status: user.status as 'active' | 'inactive' | 'banned',
+      const user = await services.auth.accounts.findOrCreateUser(
+        { db, services },
+        {
+          provider,
+          providerId: profile.id,
+          email: profile.email,
+          emailVerified: profile.emailVerified,
+          name: profile.name,
+          picture: profile.picture,
+        },
+      );
+
+      // create session (pending until the 2FA code is verified, for users with 2FA)
+      const session = await services.auth.accounts.createUserSession({ db, services }, user, {
+        device: requestDevice(request, server?.requestIP(request)?.address),
+        rememberMe: flow.rememberMe,
       });
 
-      // return session token and basic user info in HTML response
-      set.headers['content-type'] = 'text/html';
-      return services.auth.oauth.html(user, sessionId);
+      // return session token and basic user info to the client
+      return respond(user, session);
     })
-    /** Login with email + password */
-    .post('/login', async ({ body, services, sessionId }) => {
+    /** Exchange the one-time code of a redirect mode OAuth callback for its session (or link) result */
+    .post('/oauth/exchange', async ({ body, services, db }) => {
+      const result = await services.auth.oauth.consumeExchangeCode(body.code);
+      if (!result) throw new InvalidExchangeCode();
+
+      const user = await services.users.getUser(db, result.userId);
+      if (!user) throw new InvalidExchangeCode();
+
+      const { sessionId, mfaRequired } = result;
+
+      return { user: services.auth.accounts.toPublicUser(user), sessionId, mfaRequired };
+    }, { body: schemas.oauthExchange })
+    /**
+     * Login with email + password; `rememberMe` opens a long-lived session instead of one that expires when idle.
+     * Repeated wrong passwords lock the email out, for longer after each further failure.
+     */
+    .post('/login', async ({ body, services, sessionId, db, request, server }) => {
       if (sessionId) throw new AlreadyLoggedIn();
 
-      const error = await services.aws.cognito
+      const lockedFor = await services.rateLimiter.lockedFor('login', body.email);
+      if (lockedFor) throw new TooManyRequestsError(lockedFor, 'Too many failed logins. Please try again later.', 'login_locked');
+
+      // authenticate with Cognito and verify the issued ID token
+      const tokens = await services.aws.cognito
         .login(body.email, body.password)
-        .then(() => null)
         .catch((err) => {
           if (err.name === 'NotAuthorizedException') return new InvalidCredentials();
           if (err.name === 'UserNotConfirmedException') return new UserNotConfirmed();
           return new LoginError();
         });
 
-      if (error) throw error;
+      if (tokens instanceof InvalidCredentials) await services.rateLimiter.recordFailure('login', body.email);
+      if (tokens instanceof Error) throw tokens;
+
+      await services.rateLimiter.clearFailures('login', body.email);
+
+      // find or create the user behind the Cognito account (its username is the email)
+      const email = services.auth.accounts.normalizeEmail(body.email);
+      const user = await services.auth.accounts.findOrCreateUser(
+        { db, services },
+        {
+          provider: services.auth.accounts.PASSWORD_PROVIDER,
+          providerId: email,
+          email,
+          emailVerified: tokens.claims.email_verified === true,
+        },
+      );
 
-      // find user by email (db not setup yet, so using dummy userId 1)
+      // create session, keeping the Cognito refresh token (encrypted) to renew it
+      const session = await services.auth.accounts.createUserSession({ db, services }, user, {
+        cognito: tokens,
+        device: requestDevice(request, server?.requestIP(request)?.address),
+        rememberMe: body.rememberMe,
+      });
 
-      // create session
-      sessionId = await services.auth.sessions.createSession({ userId: 1, role: UserRole.USER });
+      // return session token and basic user info; `mfaRequired` sessions must be verified first
+      return { user: services.auth.accounts.toPublicUser(user), ...session };
+    }, { body: schemas.login, beforeHandle: rateLimitMiddleware('login') })
+    /**
+     * Verify the 2FA code (TOTP or recovery code) of a `pending_mfa` session, from any login method.
+     * Every code counts as an attempt before it is checked, so concurrent guesses share the limit;
+     * the session is deleted once it is reached.
+     */
+    .post('/mfa/verify', async ({ body, headers, services, db }) => {
+      const token = headers['authorization']?.replace('Bearer ', '');
+      const session = token ? await services.auth.sessions.getSession(token) : null;
+      if (!token || !session || session.state !== 'pending_mfa') throw new NoPendingMfa();
+
+      const attempts = await services.auth.sessions.countMfaAttempt(token);
+      if (attempts > MAX_VERIFY_ATTEMPTS) {
+        await services.auth.sessions.deleteSession(token);
+        throw new NoPendingMfa();
+      }
+
+      const valid = await services.auth.mfa.verify(db, session.userId, body.code);
+      if (!valid) {
+        if (attempts === MAX_VERIFY_ATTEMPTS) await services.auth.sessions.deleteSession(token);
+
+        throw new InvalidMfaCodeError();
+      }
+
+      if (!await services.auth.sessions.completeMfa(token)) throw new NoPendingMfa();
+
+      const user = await services.users.getUser(db, session.userId);
+      if (!user) throw new NoPendingMfa();
+
+      return { user: services.auth.accounts.toPublicUser(user), sessionId: token };
+    }, { body: schemas.mfaVerify, beforeHandle: rateLimitMiddleware('mfa-verify') })
+    /**
+     * Passwordless login: email a magic link and a 6-digit code (either one logs in).
+     * With `returnTo`, opening the link redirects there with a one-time code for `POST /auth/oauth/exchange`.
+     */
+    .post('/magic-link', async ({ body, services, sessionId }) => {
+      if (sessionId) throw new AlreadyLoggedIn();
+      if (!services.auth.passwordless.isConfigured()) throw new PasswordlessUnavailable();
+      if (body.returnTo && !services.auth.oauth.isAllowedReturnTo(body.returnTo)) throw new InvalidReturnTo();
+
+      await services.auth.passwordless.request(body.email, { returnTo: body.returnTo, rememberMe: body.rememberMe });
+
+      return { email: body.email };
+    }, { body: schemas.magicLink, beforeHandle: rateLimitMiddleware('magic-link') })
+    /** Open a magic link: log in (creating the user on first login) */
+    .get('/magic-link/verify', async ({ query, services, sessionId, db, request, server, redirect }) => {
+      if (sessionId) throw new AlreadyLoggedIn();
+
+      const login = await services.auth.passwordless.consumeToken(query.token);
+      if (!login) throw new InvalidMagicLink();
+
+      const user = await services.auth.accounts.findOrCreateUser(
+        { db, services },
+        {
+          provider: PASSWORDLESS_PROVIDER,
+          providerId: login.email,
+          email: login.email,
+          emailVerified: true, // proven by receiving the link
+        },
+      );
+
+      const session = await services.auth.accounts.createUserSession({ db, services }, user, {
+        device: requestDevice(request, server?.requestIP(request)?.address),
+        rememberMe: login.rememberMe,
+      });
+
+      // Keep the session token out of the URL: hand a one-time code to the allowlisted page instead
+      if (login.returnTo) {
+        const code = await services.auth.oauth.createExchangeCode({ userId: user.id, ...session });
+        return redirect(services.auth.oauth.redirectUrl(login.returnTo, code));
+      }
+
+      return { user: services.auth.accounts.toPublicUser(user), ...session };
+    }, { query: schemas.magicLinkVerify, beforeHandle: rateLimitMiddleware('magic-link-verify') })
+    /** Log in with the 6-digit code of a passwordless email */
+    .post('/magic-link/verify', async ({ body, services, sessionId, db, request, server }) => {
+      if (sessionId) throw new AlreadyLoggedIn();
+
+      const login = await services.auth.passwordless.consumeCode(body.email, body.code);
+      if (!login) throw new InvalidLoginCode();
+
+      const { email } = login;
 
-      // return session token and basic user info
+      const user = await services.auth.accounts.findOrCreateUser(
+        { db, services },
+        {
+          provider: PASSWORDLESS_PROVIDER,
+          providerId: email,
+          email,
+          emailVerified: true, // proven by receiving the code
+        },
+      );
+
+      const session = await services.auth.accounts.createUserSession({ db, services }, user, {
+        device: requestDevice(request, server?.requestIP(request)?.address),
+        rememberMe: login.rememberMe,
+      });
 
-      const { email, password } = body;
-      return { email, password, sessionId };
-    }, { body: schemas.login })
+      return { user: services.auth.accounts.toPublicUser(user), ...session };
+    }, { body: schemas.magicLinkCode, beforeHandle: rateLimitMiddleware('magic-link-verify') })
     /** Register with email + password */
     .post('/register', async ({ body, services, sessionId }) => {
         if (sessionId) throw new AlreadyLoggedIn();
@@ -163,16 +306,12 @@ export function handlers() {
 
         if (error) throw error;
 
-        services.notifications.notify('users.registration', {
-          email: body.email,
-          userId: 1,
-        })
-
-        const { email, password } = body;
-        return { email, password };
-    }, { body: schemas.register})
+        // the user row is created once the email is confirmed
+        const { email } = body;
+        return { email };
+    }, { body: schemas.register, beforeHandle: rateLimitMiddleware('register') })
     /** Confirm email with code sent to user's email */
-    .post('/confirm-email', async ({ body, services, sessionId }) => {
+    .post('/confirm-email', async ({ body, services, sessionId, db }) => {
         if (sessionId) throw new AlreadyLoggedIn();
 
         const error = await services.aws.cognito
@@ -186,9 +325,16 @@ export function handlers() {
 
         if (error) throw error;
 
-        const { email, code } = body;
-        return { email, code };
-    }, { body: schemas.confirmEmail })
+        // create the user (or merge into an existing one with the same email) and link the Cognito account
+        const email = services.auth.accounts.normalizeEmail(body.email);
+        const user = await services.auth.accounts.findOrCreateUser(
+          { db, services },
+          // the confirmation code just proved the user owns the email
+          { provider: services.auth.accounts.PASSWORD_PROVIDER, providerId: email, email, emailVerified: true },
+        );
+
+        return { user: services.auth.accounts.toPublicUser(user) };
+    }, { body: schemas.confirmEmail, beforeHandle: rateLimitMiddleware('confirm-email') })
     /** Resend confirmation code to user's email */
     .post('/resend-confirmation-code', async ({ body, services, sessionId }) => {
         if (sessionId) throw new AlreadyLoggedIn();
@@ -205,7 +351,7 @@ export function handlers() {
 
         const { email } = body;
         return { email };
-    }, { body: schemas.resendConfirmationCode })
+    }, { body: schemas.resendConfirmationCode, beforeHandle: rateLimitMiddleware('resend-confirmation-code') })
     /** Initiate forgot password flow, sending code to user's email */
     .post('/forgot-password', async ({ body, sessionId, services }) => {
         if (sessionId) throw new AlreadyLoggedIn();
@@ -222,7 +368,7 @@ export function handlers() {
 
         const { email } = body;
         return { email };
-    }, { body: schemas.forgotPassword })
+    }, { body: schemas.forgotPassword, beforeHandle: rateLimitMiddleware('forgot-password') })
     /** Complete password reset with code and new password */
     .post('/reset-password', async ({ body, sessionId, services }) => {
         if (sessionId) throw new AlreadyLoggedIn();
@@ -239,89 +385,136 @@ export function handlers() {
 
         if (error) throw error;
 
-        return { email, code, newPassword };
-    }, { body: schemas.resetPassword });
+        return { email };
+    }, { body: schemas.resetPassword, beforeHandle: rateLimitMiddleware('reset-password') });
 }
 
 /* ---------- Errors ---------- */
-class AlreadyLoggedIn extends Error {
-  status: number = 400;
+class AlreadyLoggedIn extends BadRequestError {
   name = "AlreadyLoggedInError";
 
   constructor() {
-    super(JSON.stringify({ message: 'Already logged in' }));
+    super('Already logged in', 'already_logged_in');
   }
 }
 
-class InvalidCredentials extends Error {
-  status: number = 401;
+class InvalidCredentials extends UnauthorizedError {
   name = "InvalidCredentialsError";
   
   constructor() {
-    super(JSON.stringify({ message: 'Incorrect email, username and/or password' }));
+    super('Incorrect email, username and/or password', 'invalid_credentials');
   }
 }
 
-class UserNotConfirmed extends Error {
-  status: number = 403;
+class UserNotConfirmed extends ForbiddenError {
   name = "UserNotConfirmedError";
 
   constructor() {
-    super(JSON.stringify({ message: 'User not confirmed. Please check your email for the confirmation code.' }));
+    super('User not confirmed. Please check your email for the confirmation code.', 'user_not_confirmed');
   }
 }
 
-class CodeMismatch extends Error {
-  status: number = 400;
+class CodeMismatch extends BadRequestError {
   name = "CodeMismatchError";
 
   constructor() {
-    super(JSON.stringify({ message: 'Invalid confirmation code.' }));
+    super('Invalid confirmation code.', 'invalid_confirmation_code');
   }
 }
 
-class UserAlreadyExists extends Error {
-  status: number = 409;
+class UserAlreadyExists extends ConflictError {
   name = "UserAlreadyExistsError";
 
   constructor() {
-    super(JSON.stringify({ message: 'A user with this email already exists.' }));
+    super('A user with this email already exists.', 'user_exists');
   }
 }
 
-class RegistrationError extends Error {
-  status: number = 500;
+class RegistrationError extends InternalError {
   name = "RegistrationError";
 
   constructor() {
-    super(JSON.stringify({ message: 'Registration failed. Please try again later.' }));
+    super('Registration failed. Please try again later.', 'registration_failed');
   }
 }
 
-class LoginError extends Error {
-  status: number = 500;
+class LoginError extends InternalError {
   name = "LoginError";
 
   constructor() {
-    super(JSON.stringify({ message: 'Login failed. Please try again later.' }));
+    super('Login failed. Please try again later.', 'login_failed');
+  }
+}
+
+class LinkExpired extends BadRequestError {
+  name = "LinkExpiredError";
+
+  constructor() {
+    super('This link request expired. Start it again from your profile.', 'link_expired');
+  }
+}
+
+class InvalidOAuthState extends BadRequestError {
+  name = "InvalidOAuthStateError";
+
+  constructor() {
+    super('This login request is invalid or expired. Please try again.', 'invalid_oauth_state');
+  }
+}
+
+class PasswordlessUnavailable extends ServiceUnavailableError {
+  name = "PasswordlessUnavailableError";
+
+  constructor() {
+    super('Passwordless login is not available.', 'passwordless_unavailable');
+  }
+}
+
+class InvalidMagicLink extends BadRequestError {
+  name = "InvalidMagicLinkError";
+
+  constructor() {
+    super('This login link is invalid, expired or already used. Request a new one.', 'invalid_magic_link');
   }
 }
 
-class UnsupportedProvider extends Error {
-  status: number = 400;
-  name = "UnsupportedProviderError";
+class InvalidLoginCode extends UnauthorizedError {
+  name = "InvalidLoginCodeError";
 
   constructor() {
-    super(JSON.stringify({ message: 'Unsupported OAuth provider.' }));
+    super('Invalid or expired login code.', 'invalid_login_code');
   }
 }
 
-class BannedUserError extends Error {
-  status: number = 403;
-  name = "BannedUserError";
+class NoPendingMfa extends UnauthorizedError {
+  name = "NoPendingMfaError";
 
   constructor() {
-    super(JSON.stringify({ message: 'Your account has been banned. Please contact support.' }));
+    super('No login is waiting for a two-factor code. Please log in again.', 'no_pending_mfa');
+  }
+}
+
+class InvalidExchangeCode extends BadRequestError {
+  name = "InvalidExchangeCodeError";
+
+  constructor() {
+    super('This code is invalid, expired or already used.', 'invalid_exchange_code');
+  }
+}
+
+class MissingReturnTo extends BadRequestError {
+  name = "MissingReturnToError";
+
+  constructor() {
+    super('returnTo is required in redirect mode when no default is configured.', 'missing_return_to');
+  }
+}
+
+class InvalidReturnTo extends BadRequestError {
+  name = "InvalidReturnToError";
+
+  constructor() {
+    super('returnTo is not an allowed URL.', 'invalid_return_to');
   }
 }
 
@@ -349,11 +542,36 @@ const schemas = {
     login: t.Object({
       email: emailSchema,
       password: passwordSchema,
+      rememberMe: t.Optional(t.Boolean()),
     }),
     register: t.Object({
       email: emailSchema,
       password: passwordSchema,
     }),
+    oauthStart: t.Object({
+      link: t.Optional(t.String({ format: 'uuid' })),
+      mode: t.Optional(t.Union([t.Literal('popup'), t.Literal('redirect')])),
+      returnTo: t.Optional(t.String({ maxLength: 2048 })),
+      rememberMe: t.Optional(t.BooleanString()),
+    }),
+    magicLink: t.Object({
+      email: emailSchema,
+      returnTo: t.Optional(t.String({ maxLength: 2048 })),
+      rememberMe: t.Optional(t.Boolean()),
+    }),
+    magicLinkVerify: t.Object({
+      token: t.String({ minLength: 1, maxLength: 128 }),
+    }),
+    magicLinkCode: t.Object({
+      email: emailSchema,
+      code: codeSchema,
+    }),
+    mfaVerify: t.Object({
+      code: t.String({ minLength: 6, maxLength: 32 }),
+    }),
+    oauthExchange: t.Object({
+      code: t.String({ minLength: 1, maxLength: 128 }),
+    }),
     confirmEmail:  t.Object({
       email: emailSchema,
       code: codeSchema,
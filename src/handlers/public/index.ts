@@ -5,9 +5,13 @@
 
 import Elysia from "elysia";
 import * as auth from "./auth";
+import * as plans from "./plans";
+import * as webhooks from "./webhooks";
 
 /**
- * Combined public handlers including authentication endpoints.
+ * Combined public handlers including authentication, plan and webhook endpoints.
  */
 export const handlers = new Elysia()
-    .use(auth.handlers());
\ No newline at end of file
+    .use(auth.handlers())
+    .use(plans.handlers())
+    .use(webhooks.handlers());
\ No newline at end of file
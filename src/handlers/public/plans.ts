@@ -0,0 +1,27 @@
+/**
+ * Public plan handlers for listing the subscription plans on sale.
+ * These endpoints do not require authentication.
+ */
+
+/* ---------- External ---------- */
+import { Elysia } from 'elysia';
+
+/* ---------- Types ---------- */
+import { AppContext } from '../../types/types';
+
+/**
+ * @description
+ * Creates public plan route handlers.
+ *
+ * @returns Elysia instance with /plans prefix and plan listing route
+ */
+export function handlers() {
+  return new Elysia<'/plans', AppContext>({ prefix: '/plans' })
+    /** List active plans, cheapest first */
+    .get('/', async ({ db }) => {
+      return db.query.plans.findMany({
+        where: (plans, { eq }) => eq(plans.active, true),
+        orderBy: (plans, { asc }) => asc(plans.amount),
+      });
+    });
+}
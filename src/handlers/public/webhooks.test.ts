@@ -0,0 +1,191 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from 'bun:test';
+import type { RedisClient } from 'bun';
+import { Elysia } from 'elysia';
+import { createHmac } from 'node:crypto';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { eq } from 'drizzle-orm';
+import { type ApiDatabase, createDatabase } from '../../db/db';
+import { schema } from '../../db/schema';
+import { errorHandler } from '../../middlewares';
+import { PaymentGateway, PaymentStatus } from '../../services/enums';
+import { logger } from '../../services/logger';
+import { Payments } from '../../services/payments';
+import * as subscriptions from '../../services/subscriptions';
+import type { Services } from '../../types/types';
+import { handlers } from './webhooks';
+
+const WEBHOOK_SECRET = 'test-webhook-secret';
+const SIGNING_KEY = 'test-signing-key';
+
+/** AbacatePay `billing.paid` delivery for a billing charge */
+const billingPaid = (chargeId: string, eventId = 'log_billing_1') => ({
+  id: eventId,
+  event: 'billing.paid',
+  devMode: true,
+  data: { billing: { id: chargeId, status: 'PAID', amount: 1000 } },
+});
+
+/** AbacatePay `billing.paid` delivery for a Pix QR code charge */
+const pixPaid = (chargeId: string, eventId = 'log_pix_1') => ({
+  id: eventId,
+  event: 'billing.paid',
+  devMode: true,
+  data: { pixQrCode: { id: chargeId, status: 'PAID', amount: 1000 } },
+});
+
+const sign = (body: string, key = SIGNING_KEY) => createHmac('sha256', key).update(body).digest('base64');
+
+let cwd: string;
+let directory: string;
+let db: ApiDatabase;
+let app: { handle: (request: Request) => Promise<Response> };
+let userId: string;
+const tracked = new Set<string>();
+const notifications: string[] = [];
+
+/**
+ * Delivers a payload to the AbacatePay webhook, signed with the given key.
+ */
+function deliver(payload: object, { key = SIGNING_KEY, secret = WEBHOOK_SECRET } = {}) {
+  const body = JSON.stringify(payload);
+
+  return app.handle(
+    new Request(`http://localhost/webhooks/abacatepay?webhookSecret=${secret}`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'x-webhook-signature': sign(body, key) },
+      body,
+    }),
+  );
+}
+
+/**
+ * Stores a pending Pix payment for the test user and tracks its charge.
+ */
+async function pendingPayment(providerId: string) {
+  tracked.add(providerId);
+  await db.insert(schema.payments).values({
+    userId,
+    amount: 1000,
+    currency: 'brl',
+    provider: PaymentGateway.ABACATE,
+    providerId,
+    status: PaymentStatus.PENDING,
+  });
+}
+
+async function paymentStatus(providerId: string) {
+  const payment = await db.query.payments.findFirst({
+    where: (payments, { eq }) => eq(payments.providerId, providerId),
+  });
+
+  return payment?.status;
+}
+
+beforeAll(async () => {
+  process.env.ABACATE_API_KEY = 'test-api-key';
+  process.env.ABACATE_WEBHOOK_SECRET = WEBHOOK_SECRET;
+  process.env.ABACATE_WEBHOOK_SIGNING_KEY = SIGNING_KEY;
+
+  // The database file is created in the working directory
+  cwd = process.cwd();
+  directory = await mkdtemp(join(tmpdir(), 'webhooks-test-'));
+  process.chdir(directory);
+  db = await createDatabase();
+
+  const redis = {
+    zadd: async (_key: string, _score: number, id: string) => Number(!tracked.has(id) && tracked.add(id)),
+    zrem: async (_key: string, id: string) => Number(tracked.delete(id)),
+  } as unknown as RedisClient;
+
+  const services = {
+    logger,
+    payments: new Payments(redis),
+    subscriptions,
+    notifications: { notify: (path: string) => notifications.push(path) },
+    errorReporter: { report: () => {} },
+  } as unknown as Services;
+
+  app = new Elysia().use(errorHandler({ services })).decorate('db', db).decorate('services', services).use(handlers());
+
+  const [user] = await db.insert(schema.users).values({ email: 'payer@example.com' }).returning();
+  userId = user.id;
+});
+
+afterAll(async () => {
+  process.chdir(cwd);
+  await rm(directory, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  notifications.length = 0;
+});
+
+describe('POST /webhooks/abacatepay', () => {
+  test('rejects a delivery with a bad signature', async () => {
+    await pendingPayment('bill_bad_signature');
+
+    const response = await deliver(billingPaid('bill_bad_signature'), { key: 'wrong-key' });
+
+    expect(response.status).toBe(401);
+    expect(await paymentStatus('bill_bad_signature')).toBe(PaymentStatus.PENDING);
+    expect(tracked.has('bill_bad_signature')).toBe(true);
+  });
+
+  test('rejects a delivery with a wrong webhook secret', async () => {
+    await pendingPayment('bill_bad_secret');
+
+    const response = await deliver(billingPaid('bill_bad_secret'), { secret: 'wrong-secret' });
+
+    expect(response.status).toBe(401);
+    expect(await paymentStatus('bill_bad_secret')).toBe(PaymentStatus.PENDING);
+  });
+
+  test('settles the payment of a paid billing', async () => {
+    await pendingPayment('bill_paid');
+
+    const response = await deliver(billingPaid('bill_paid', 'log_billing_paid'));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ received: true, duplicate: false });
+    expect(await paymentStatus('bill_paid')).toBe(PaymentStatus.COMPLETED);
+    expect(tracked.has('bill_paid')).toBe(false);
+    expect(notifications).toEqual(['payments.success']);
+  });
+
+  test('settles the payment of a paid Pix QR code', async () => {
+    await pendingPayment('pix_char_paid');
+
+    const response = await deliver(pixPaid('pix_char_paid', 'log_pix_paid'));
+
+    expect(response.status).toBe(200);
+    expect(await paymentStatus('pix_char_paid')).toBe(PaymentStatus.COMPLETED);
+    expect(tracked.has('pix_char_paid')).toBe(false);
+  });
+
+  test('acknowledges a duplicate delivery without applying it again', async () => {
+    await pendingPayment('pix_char_duplicate');
+    const payload = pixPaid('pix_char_duplicate', 'log_pix_duplicate');
+
+    expect(await (await deliver(payload)).json()).toEqual({ received: true, duplicate: false });
+
+    // Reopen the payment, so a second settlement would be visible
+    await db
+      .update(schema.payments)
+      .set({ status: PaymentStatus.PENDING, completedAt: null })
+      .where(eq(schema.payments.providerId, 'pix_char_duplicate'));
+
+    const response = await deliver(payload);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ received: true, duplicate: true });
+    expect(await paymentStatus('pix_char_duplicate')).toBe(PaymentStatus.PENDING);
+    expect(notifications).toEqual(['payments.success']);
+
+    const events = await db.query.paymentEvents.findMany({
+      where: (paymentEvents, { eq }) => eq(paymentEvents.eventId, 'log_pix_duplicate'),
+    });
+    expect(events).toHaveLength(1);
+  });
+});
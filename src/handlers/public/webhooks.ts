@@ -0,0 +1,82 @@
+/**
+ * Public webhook handlers for payment provider notifications.
+ * These endpoints are called by providers and authenticated by signature instead of sessions.
+ */
+
+/* ---------- External ---------- */
+import { Elysia, t } from 'elysia';
+
+/* ---------- Types ---------- */
+import { AppContext, Services } from '../../types/types';
+import type { ApiDatabase } from '../../db/db';
+import { PaymentGateway } from '../../services/enums';
+
+/**
+ * @description
+ * Creates webhook route handlers for payment providers.
+ * Deliveries are verified, deduplicated by event ID and applied through the same
+ * settlement path used by the payment status cron.
+ *
+ * @returns Elysia instance with /webhooks prefix and provider webhook routes
+ */
+export function handlers() {
+  return new Elysia<'/webhooks', AppContext>({ prefix: '/webhooks' })
+    /** AbacatePay billing and Pix events */
+    .post('/abacatepay', ({ body, query, headers, services, db }) =>
+      handleWebhook({ db, services }, PaymentGateway.ABACATE, { rawBody: body, headers, query }), {
+      parse: 'text',
+      body: t.String(),
+    })
+    /** Stripe Checkout Session events */
+    .post('/stripe', ({ body, query, headers, services, db }) =>
+      handleWebhook({ db, services }, PaymentGateway.STRIPE, { rawBody: body, headers, query }), {
+      parse: 'text',
+      body: t.String(),
+    });
+}
+
+/**
+ * Verifies a webhook delivery with its provider, ignores duplicates and settles
+ * the referenced payment when the event carries a final status.
+ *
+ * @param db Database instance
+ * @param services Services container
+ * @param provider Gateway that sent the webhook
+ * @param request Raw body, headers and query of the webhook request
+ * @returns Promise<{received: boolean, duplicate: boolean}> Acknowledgement
+ */
+async function handleWebhook(
+  { db, services }: { db: ApiDatabase; services: Services },
+  provider: PaymentGateway,
+  request: {
+    rawBody: string;
+    headers: Record<string, string | undefined>;
+    query: Record<string, string | undefined>;
+  },
+) {
+  const { records } = services.payments;
+
+  const event = await services.payments.provider(provider).parseWebhook(request);
+
+  // Duplicate deliveries are acknowledged without being applied again
+  if (await records.hasEvent(db, { provider, eventId: event.id })) {
+    return { received: true, duplicate: true };
+  }
+
+  if (event.providerId && event.status) {
+    await records.settlePayment(
+      { db, services },
+      { provider, providerId: event.providerId, status: event.status, reason: event.reason },
+    );
+  }
+
+  await records.recordEvent(db, {
+    provider,
+    eventId: event.id,
+    eventType: event.type,
+    providerId: event.providerId,
+    payload: request.rawBody,
+  });
+
+  return { received: true, duplicate: false };
+}
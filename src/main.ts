@@ -1,6 +1,6 @@
 /**
  * Main application entry point for the Bun/Elysia server.
- * Sets up the HTTP server with CORS, OpenAPI, authentication, and route handlers.
+ * Sets up the HTTP server with error handling, CORS, OpenAPI, authentication, and route handlers.
  */
 
 import { Elysia } from 'elysia';
@@ -10,6 +10,7 @@ import { openapi } from '@elysiajs/openapi'
 import { checkEnv } from './config';
 
 import { services } from './services';
+import { errorHandler, requestLogger } from './middlewares';
 
 // Auth handlers
 import { Admin, Private, Public } from './handlers';
@@ -28,13 +29,16 @@ const db = await createDatabase();
  */
 async function createApp() {
   const app = new Elysia({ serve: { idleTimeout: 10 } })
+    // Request IDs, access logs and problem+json errors; registered first so they cover every route
+    .use(requestLogger({ services }))
+    .use(errorHandler({ services }))
     .use(openapi())
     // Global middlewares
     .use(cors({
       origin: ['http://localhost:3000', 'https://my_app.com'],
       methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-      allowedHeaders: ['Origin', 'Content-Type', 'Accept', 'Authorization', 'X-Admin-Token'],
-      exposeHeaders: ['Content-Length'],
+      allowedHeaders: ['Origin', 'Content-Type', 'Accept', 'Authorization', 'X-Admin-Token', 'X-Request-Id'],
+      exposeHeaders: ['Content-Length', 'WWW-Authenticate', 'RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'Retry-After', 'X-Request-Id'],
       credentials: false,
     }))
     .decorate('db', db)
@@ -44,12 +48,7 @@ async function createApp() {
     .use(crons({ db, services }))
     .use(Public.handlers)
     .use(Private.handlers)
-    .use(Admin.handlers)
-    .onError(({ error }) => {
-      if (!('message' in error)) return;
-
-      services.notifications.notify('system.error', { error: error.message });
-    });
+    .use(Admin.handlers);
 
   return app;
 }
@@ -66,22 +65,22 @@ async function main() {
     const port = process.env.LISTEN_ADDR.split(':')[1];
 
     app.listen(port, () => {
-      console.log(`🦊 Elysia is running at http://localhost:${port}`);
+      services.logger.info(`🦊 Elysia is running at http://localhost:${port}`);
     });
 
     // Handle shutdown signals
     process.on('SIGINT', () => {
-      console.log('Received SIGINT, shutting down gracefully...');
+      services.logger.info('Received SIGINT, shutting down gracefully...');
       process.exit(0);
     });
 
     process.on('SIGTERM', () => {
-      console.log('Received SIGTERM, shutting down gracefully...');
+      services.logger.info('Received SIGTERM, shutting down gracefully...');
       process.exit(0);
     });
 
   } catch (error) {
-    console.error('Failed to start server:', error);
+    services.logger.error('Failed to start server', { error });
     process.exit(1);
   }
 }
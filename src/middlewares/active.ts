@@ -3,47 +3,28 @@
  * Must be used after authentication middleware to access session data.
  */
 
-import type { Context } from 'elysia';
-import type { AppContext } from '../types/types';
+import type { AuthContext } from '../types/types';
+import { ForbiddenError, UnauthorizedError } from '../errors';
 
 /**
  * Middleware that checks if authenticated user is active (not inactive or banned).
- * Uses status from session data to avoid database queries.
- * Throws InactiveUserError (403) if user is inactive or banned.
+ * Uses the status resolved from the session to avoid database queries.
+ * Usable as a per-route `beforeHandle`; the {@link requireActive} guard applies it to a whole group.
+ * Throws ForbiddenError (403) if user is inactive or banned.
  *
- * @param context Elysia context with user authentication data
- * @throws InactiveUserError When user is inactive or banned
+ * @param ctx Elysia context with user authentication data
+ * @throws UnauthorizedError When the request is not authenticated
+ * @throws ForbiddenError When user is inactive or banned
  */
-export const activeUserMiddleware = async (context: Context) => {
-  const ctx = context as Context & AppContext['decorator'];
+export const activeUserMiddleware = (ctx: Partial<Pick<AuthContext, 'userId' | 'userStatus'>>) => {
+  if (!ctx.userId) throw new UnauthorizedError();
 
-  // Get session data to check user status
-  const sessionData = await ctx.services.auth.sessions.getSession(ctx.sessionId);
-  if (!sessionData) throw new InactiveUserError('Session not found');
-
-  // Check status from session
-  if (sessionData.status === 'inactive') {
-    throw new InactiveUserError(
+  if (ctx.userStatus !== 'active') {
+    throw new ForbiddenError(
       'Your account is inactive. You cannot perform this action. Please contact support.',
+      'user_inactive',
     );
   }
 
   return;
 };
-
-/**
- * Custom inactive user error with 403 status code.
- */
-class InactiveUserError extends Error {
-  status: number = 403;
-  name = 'InactiveUserError';
-
-  /**
-   * Creates an inactive user error with JSON-formatted message.
-   *
-   * @param message Error message to include in response
-   */
-  constructor(message: string) {
-    super(JSON.stringify({ message }));
-  }
-}
@@ -1,74 +1,117 @@
 /**
- * Authentication middleware that validates session tokens and adds user context.
- * Extracts session data from Authorization header and refreshes sessions.
+ * Authentication middleware that validates session tokens or API keys and adds user context.
+ * Extracts the token from the Authorization header and refreshes sessions.
  */
 
-import type { Context } from 'elysia';
-import type { AppContext } from '../types/types';
+import type { ApiDatabase } from '../db/db';
+import type { UserRole } from '../services/enums';
+import type { AuthContext, Services } from '../types/types';
+import { ForbiddenError, UnauthorizedError } from '../errors';
 
 /**
- * Middleware that validates Bearer token sessions and adds userId/role/status to context.
- * Throws AuthError (401) if authentication fails.
- * Throws AuthError (403) if user is banned.
+ * Middleware that validates Bearer tokens and resolves userId/role/userStatus/permissions/plan/mfaVerified/authenticatedAt/sessionId.
+ * The token is either a session ID or a personal API key (`ak_...`), which resolves the same user context from the
+ * database plus `apiKey` (its ID and scopes) instead of `sessionId`.
+ * Sessions created before permissions were cached get them resolved and stored on first use.
+ * Sessions awaiting a 2FA code (`pending_mfa`) are rejected: only `POST /auth/mfa/verify` accepts them.
+ * Rejections set a `WWW-Authenticate: Bearer` header (RFC 6750), with `error="invalid_token"` when a token was sent,
+ * so clients can tell an expired session from a missing one.
+ * Meant for `derive`/`resolve`; prefer the {@link requireAuth} guard, which types them as present.
+ * Throws UnauthorizedError (401) if authentication fails.
+ * Throws ForbiddenError (403) if user is banned.
  *
- * @param ctx Elysia context with services and request data
- * @returns Promise<void>
- * @throws AuthError When no token provided, session invalid, or user is banned
+ * @param context Elysia context with services, database and request headers
+ * @returns Promise<AuthContext> Authenticated user context
+ * @throws UnauthorizedError When no token provided, session or API key invalid, or session awaiting 2FA
+ * @throws ForbiddenError When user is banned
  */
-export const authMiddleware = async (ctx: Context): Promise<void> => {
-  const context = ctx as Context & AppContext['decorator'];
+export const authMiddleware = async (context: {
+  headers: Record<string, string | undefined>;
+  services: Services;
+  db: ApiDatabase;
+  set?: { headers: Record<string, string | number> };
+}): Promise<AuthContext> => {
+  const unauthorized = (message: string, error?: string) => {
+    if (context.set) context.set.headers['www-authenticate'] = wwwAuthenticate(error, message);
+    return new UnauthorizedError(message, error ?? 'unauthorized');
+  };
 
   const sessionId = context.headers['authorization']?.replace('Bearer ', '');
-  if (!sessionId) throw new AuthError('No session token provided');
+  if (!sessionId) throw unauthorized('No session token provided');
+
+  if (context.services.auth.apiKeys.isApiKey(sessionId)) {
+    const auth = await apiKeyAuth(context, sessionId);
+    if (!auth) throw unauthorized('Invalid or expired API key', 'invalid_token');
+
+    return auth;
+  }
 
   const sessionData = await context.services.auth.sessions.getSession(sessionId);
-  if (!sessionData) throw new AuthError('Invalid or expired session');
+  if (!sessionData) throw unauthorized('Invalid or expired session', 'invalid_token');
+  if (sessionData.state === 'pending_mfa') throw unauthorized('Two-factor verification required', 'invalid_token');
 
   // Block banned users from accessing any authenticated routes
   if (sessionData.status === 'banned') {
-    throw new BannedUserError('Your account has been banned. Please contact support.');
+    throw new ForbiddenError('Your account has been banned. Please contact support.', 'user_banned');
   }
 
-  // Refresh session
-  await context.services.auth.sessions.refreshSession(sessionId);
+  // Extend the session when close to expiring (and renew the Cognito tokens of password sessions)
+  const refreshed = await context.services.auth.sessions.refreshSession(sessionId, sessionData);
+  if (!refreshed) throw unauthorized('Invalid or expired session', 'invalid_token');
+
+  let permissions = sessionData.permissions;
+  if (!permissions) {
+    permissions = await context.services.roles.getUserPermissions(context.db, sessionData.userId);
+    await context.services.auth.sessions.updateSession(sessionId, { permissions });
+  }
 
-  // Add user info to context
-  context.userId = sessionData.userId;
-  context.role = sessionData.role;
-  context.status = sessionData.status;
-  context.sessionId = sessionId;
+  return {
+    userId: sessionData.userId,
+    role: sessionData.role,
+    userStatus: sessionData.status,
+    permissions,
+    plan: sessionData.plan,
+    mfaVerified: !!sessionData.mfaAt,
+    authenticatedAt: Math.max(sessionData.device?.createdAt ?? 0, sessionData.mfaAt ?? 0) || undefined,
+    sessionId,
+  };
 };
 
 /**
- * Custom banned user error with 403 status code.
+ * Resolves the user context of an API key. The user's role, status and permissions are read from the
+ * database on every request, so changes apply to keys right away.
+ *
+ * @param context Elysia context with services and database
+ * @param key Plain-text API key
+ * @returns Promise<AuthContext | null> Context of the key's user, without `sessionId`, or null if the key is unknown or expired
+ * @throws ForbiddenError When user is banned
  */
-class BannedUserError extends Error {
-  status: number = 403;
-  name = "BannedUserError";
+async function apiKeyAuth(context: { services: Services; db: ApiDatabase }, key: string): Promise<AuthContext | null> {
+  const found = await context.services.auth.apiKeys.authenticate(context.db, key);
+  if (!found) return null;
 
-  /**
-   * Creates a banned user error with JSON-formatted message.
-   *
-   * @param message Error message to include in response
-   */
-  constructor(message: string) {
-    super(JSON.stringify({ message }));
-  }
+  const { apiKey, user } = found;
+  if (user.status === 'banned') throw new ForbiddenError('Your account has been banned. Please contact support.', 'user_banned');
+
+  return {
+    userId: user.id,
+    role: user.role as UserRole,
+    userStatus: user.status,
+    permissions: await context.services.roles.getUserPermissions(context.db, user.id),
+    mfaVerified: false,
+    apiKey: { id: apiKey.id, scopes: apiKey.scopes },
+  };
 }
 
 /**
- * Custom authentication error with 401 status code.
+ * Builds a `WWW-Authenticate` challenge for the Bearer scheme (RFC 6750).
+ *
+ * @param error Error code, e.g. `invalid_token`; omitted when no token was sent
+ * @param description Human-readable description of the error
+ * @returns string Header value
  */
-class AuthError extends Error {
-  status: number = 401;
-  name = "AuthError";
+function wwwAuthenticate(error?: string, description?: string): string {
+  if (!error) return 'Bearer realm="api"';
 
-  /**
-   * Creates an authentication error with JSON-formatted message.
-   * 
-   * @param message Error message to include in response
-   */
-  constructor(message: string) {
-    super(JSON.stringify({ message }));
-  }
+  return `Bearer realm="api", error="${error}", error_description="${description?.replace(/"/g, "'")}"`;
 }
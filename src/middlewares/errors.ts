@@ -0,0 +1,73 @@
+/**
+ * Error-handling plugin: turns every error into an RFC 7807 problem response.
+ */
+
+import Elysia, { ValidationError } from 'elysia';
+import { ApiError, BadRequestError, InternalError, NotFoundError, TooManyRequestsError, UnprocessableError } from '../errors';
+import type { Services } from '../types/types';
+
+/**
+ * Creates the global error handler.
+ * Errors are answered with an `application/problem+json` body (see `ApiError`) carrying the request ID set by
+ * {@link requestLogger}; validation, parse and routing errors get the codes `validation_failed`, `invalid_body` and
+ * `not_found`, and any other error becomes a generic `internal_error` so internals never leak to clients.
+ * Throttled requests get a `Retry-After` header. Only 5xx errors are logged with their stack and reported, through
+ * the throttled `services.errorReporter`.
+ *
+ * @param services Services container, for the logger and error reporter
+ * @returns Elysia plugin, to register after the request logger and before the routes
+ */
+export const errorHandler = ({ services }: { services: Services }) =>
+  new Elysia({ name: 'error-handler' })
+    .onError({ as: 'global' }, ({ code, error, request, path, route, set }) => {
+      const apiError = toApiError(code, error);
+      const requestId = String(set.headers['x-request-id'] ?? '') || undefined;
+
+      if (apiError.status >= 500) {
+        const cause = error instanceof Error ? error : apiError;
+        // Route patterns rather than paths, which may hold IDs
+        const failedRoute = `${request.method} ${route || 'unmatched'}`;
+
+        services.logger.error('Request failed', { code: apiError.code, error: cause });
+        services.errorReporter.report({ error: cause, route: failedRoute, requestId });
+      }
+
+      set.status = apiError.status;
+      if (apiError instanceof TooManyRequestsError) set.headers['retry-after'] = String(apiError.retryAfter);
+
+      const headers = Object.fromEntries(Object.entries(set.headers).map(([name, value]) => [name, String(value)]));
+
+      return new Response(JSON.stringify(apiError.toProblem({ instance: path, requestId })), {
+        status: apiError.status,
+        headers: { ...headers, 'content-type': 'application/problem+json' },
+      });
+    });
+
+/**
+ * Maps any error thrown while handling a request to an API error.
+ *
+ * @param code Elysia error code (`VALIDATION`, `NOT_FOUND`, `PARSE`...)
+ * @param error Thrown error
+ * @returns ApiError Error to send
+ */
+function toApiError(code: string | number, error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+
+  if (error instanceof ValidationError) {
+    const message = typeof error.customError === 'string' ? error.customError : `Invalid ${error.type}`;
+    const errors = error.all.map((issue) => ({ path: issue.path || '/', message: issue.summary ?? issue.message }));
+
+    return new UnprocessableError(message, 'validation_failed', { in: error.type, errors });
+  }
+
+  if (code === 'NOT_FOUND') return new NotFoundError('Route not found', 'not_found');
+  if (code === 'PARSE') return new BadRequestError('The request body could not be parsed', 'invalid_body');
+
+  // Other client errors raised by Elysia, e.g. an invalid cookie signature
+  const status = error instanceof Error && 'status' in error ? Number(error.status) : Number.NaN;
+  if (status >= 400 && status < 500) {
+    return new ApiError(status, typeof code === 'string' ? code.toLowerCase() : 'request_error', (error as Error).message);
+  }
+
+  return new InternalError();
+}
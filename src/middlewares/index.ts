@@ -1,9 +1,17 @@
 /**
- * Middleware exports for authentication and authorization.
- * Provides authMiddleware for session validation, adminMiddleware for role checking,
- * and activeUserMiddleware for status verification.
+ * Middleware exports for logging, error handling, authentication and authorization.
+ * Provides the requestLogger plugin (request IDs and access logs), the errorHandler plugin (problem+json errors),
+ * the guard plugins (requireAuth, requireSession, requireRole, requireActive, requireMfa, requirePermission,
+ * requireScope), and per-route hooks: activeUserMiddleware for status verification, permissionMiddleware for permission checks, scopeMiddleware for API key scopes,
+ * subscriptionMiddleware for plan checks and rateLimitMiddleware for rate limits.
  */
 
+export * from './logger';
+export * from './errors';
+export * from './guards';
 export * from './auth';
-export * from './admin';
 export * from './active';
+export * from './permission';
+export * from './scope';
+export * from './subscription';
+export * from './ratelimit';
@@ -0,0 +1,47 @@
+/**
+ * Request logging plugin: gives every request an ID and writes one access log entry per response.
+ */
+
+import Elysia from 'elysia';
+import { enterLogContext } from '../services/logger';
+import type { AuthContext, Services } from '../types/types';
+
+/** Accepted format of a client-sent `X-Request-Id` */
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Creates the request logger.
+ * Each request gets an `X-Request-Id` response header, taken from the request when valid (so IDs can be traced
+ * across services) or generated, and added to the context of every entry logged while handling it.
+ * Once the response is sent, an access log entry records the method, route pattern (never the raw path, which may
+ * hold IDs), status, latency and the authenticated user, if any.
+ *
+ * @param services Services container, for the logger
+ * @returns Elysia plugin, to register before everything else
+ */
+export const requestLogger = ({ services }: { services: Services }) => {
+  const startedAt = new WeakMap<Request, number>();
+
+  return new Elysia({ name: 'request-logger' })
+    .onRequest(({ request, set }) => {
+      const header = request.headers.get('x-request-id');
+      const requestId = header && REQUEST_ID_PATTERN.test(header) ? header : crypto.randomUUID();
+
+      set.headers['x-request-id'] = requestId;
+      startedAt.set(request, performance.now());
+      enterLogContext({ requestId });
+    })
+    .onAfterResponse({ as: 'global' }, (context) => {
+      const { request, set, route, responseValue } = context;
+      const { userId } = context as typeof context & Partial<AuthContext>;
+      const started = startedAt.get(request);
+
+      services.logger.info('request', {
+        method: request.method,
+        route: route || 'unmatched',
+        status: responseValue instanceof Response ? responseValue.status : typeof set.status === 'number' ? set.status : 200,
+        latencyMs: started === undefined ? undefined : Math.round((performance.now() - started) * 10) / 10,
+        userId,
+      });
+    });
+};
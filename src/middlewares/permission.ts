@@ -0,0 +1,31 @@
+/**
+ * Permission middleware that checks the permissions granted by the user's roles.
+ * Must be used after authentication middleware to access the session permissions.
+ */
+
+import type { AuthContext } from '../types/types';
+import type { Permission } from '../services/enums';
+import { hasPermissions } from '../services/roles';
+import { ForbiddenError, UnauthorizedError } from '../errors';
+
+/**
+ * Creates a middleware that checks if the authenticated user has every given permission.
+ * Uses the permissions cached in the session, which are kept in sync when roles change.
+ * Usable as a per-route `beforeHandle`; the {@link requirePermission} guard applies it to a whole group.
+ *
+ * @param permissions Required permissions
+ * @returns Middleware function for Elysia hooks
+ * @throws UnauthorizedError When the request is not authenticated
+ * @throws ForbiddenError When a permission is missing
+ */
+export const permissionMiddleware =
+  (...permissions: Permission[]) =>
+  (ctx: Partial<Pick<AuthContext, 'userId' | 'permissions'>>) => {
+    if (!ctx.userId) throw new UnauthorizedError();
+
+    if (!hasPermissions(ctx.permissions, permissions)) {
+      throw new ForbiddenError(`Requires permission: ${permissions.join(', ')}`, 'missing_permission', { permissions });
+    }
+
+    return;
+  };
@@ -0,0 +1,31 @@
+/**
+ * Scope middleware that limits what API keys may do.
+ * Must be used after authentication middleware to access the API key of the request.
+ */
+
+import type { AuthContext } from '../types/types';
+import type { ApiKeyScope } from '../services/enums';
+import { ForbiddenError, UnauthorizedError } from '../errors';
+
+/**
+ * Creates a middleware that checks that an API key request has every given scope.
+ * Requests authenticated with a session are not limited by scopes.
+ * Usable as a per-route `beforeHandle`; the {@link requireScope} guard applies it to a whole group.
+ *
+ * @param scopes Required scopes
+ * @returns Middleware function for Elysia hooks
+ * @throws UnauthorizedError When the request is not authenticated
+ * @throws ForbiddenError When the API key lacks a scope
+ */
+export const scopeMiddleware =
+  (...scopes: ApiKeyScope[]) =>
+  (ctx: Partial<Pick<AuthContext, 'userId' | 'apiKey'>>) => {
+    const { userId, apiKey } = ctx;
+    if (!userId) throw new UnauthorizedError();
+    if (!apiKey) return;
+
+    const missing = scopes.filter((scope) => !apiKey.scopes.includes(scope));
+    if (missing.length) throw new ForbiddenError(`API key requires scope: ${missing.join(', ')}`, 'missing_scope', { scopes: missing });
+
+    return;
+  };
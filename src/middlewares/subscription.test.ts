@@ -0,0 +1,136 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from 'bun:test';
+import { Elysia } from 'elysia';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { type ApiDatabase, createDatabase } from '../db/db';
+import { schema, type User } from '../db/schema';
+import { SubscriptionStatus, UserRole } from '../services/enums';
+import { logger } from '../services/logger';
+import * as subscriptions from '../services/subscriptions';
+import type { SessionData, SessionPlan, Services } from '../types/types';
+import { errorHandler } from './errors';
+import { requireAuth } from './guards';
+import { subscriptionMiddleware } from './subscription';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+let cwd: string;
+let directory: string;
+let db: ApiDatabase;
+let app: { handle: (request: Request) => Promise<Response> };
+let subscriber: User;
+let freeUser: User;
+const sessions = new Map<string, SessionData>();
+const sessionWrites: { sessionId: string; plan?: SessionPlan }[] = [];
+
+/**
+ * Requests the plan-gated route with the given bearer token.
+ */
+function request(token: string) {
+  return app.handle(new Request('http://localhost/pro', { headers: { authorization: `Bearer ${token}` } }));
+}
+
+function session(userId: string, plan?: SessionPlan): SessionData {
+  return { userId, role: UserRole.USER, status: 'active', permissions: [], plan, exp: Date.now() + DAY } as SessionData;
+}
+
+beforeAll(async () => {
+  // The database file is created in the working directory
+  cwd = process.cwd();
+  directory = await mkdtemp(join(tmpdir(), 'subscription-test-'));
+  process.chdir(directory);
+  db = await createDatabase();
+
+  [subscriber, freeUser] = await db
+    .insert(schema.users)
+    .values([{ email: 'subscriber@example.com' }, { email: 'free@example.com' }])
+    .returning();
+  const [plan] = await db.insert(schema.plans).values({ slug: 'pro', name: 'Pro', amount: 1000 }).returning();
+  await db.insert(schema.subscriptions).values({
+    userId: subscriber.id,
+    planId: plan.id,
+    status: SubscriptionStatus.ACTIVE,
+    currentPeriodEnd: new Date(Date.now() + 30 * DAY),
+  });
+
+  const users = new Map([subscriber, freeUser].map((user) => [`ak_${user.email}`, user]));
+
+  const services = {
+    logger,
+    subscriptions,
+    errorReporter: { report: () => {} },
+    roles: { getUserPermissions: async () => [] },
+    auth: {
+      apiKeys: {
+        isApiKey: (token: string) => token.startsWith('ak_'),
+        authenticate: async (_db: ApiDatabase, key: string) => {
+          const user = users.get(key);
+          return user ? { apiKey: { id: `key-${user.id}`, scopes: [] }, user } : null;
+        },
+      },
+      sessions: {
+        getSession: async (sessionId: string) => sessions.get(sessionId) ?? null,
+        refreshSession: async () => true,
+        updateSession: async (sessionId: string, data: Partial<SessionData>) => {
+          sessionWrites.push({ sessionId, plan: data.plan });
+          const current = sessions.get(sessionId);
+          if (current) sessions.set(sessionId, { ...current, ...data });
+        },
+      },
+    },
+  } as unknown as Services;
+
+  app = new Elysia()
+    .use(errorHandler({ services }))
+    .decorate('db', db)
+    .decorate('services', services)
+    .use(requireAuth())
+    .get('/pro', () => 'ok', { beforeHandle: subscriptionMiddleware('pro') });
+});
+
+afterAll(async () => {
+  process.chdir(cwd);
+  await rm(directory, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  sessions.clear();
+  sessionWrites.length = 0;
+});
+
+describe('subscriptionMiddleware', () => {
+  test('accepts an API key of a subscribed user', async () => {
+    const response = await request(`ak_${subscriber.email}`);
+
+    expect(response.status).toBe(200);
+    expect(sessionWrites).toHaveLength(0);
+  });
+
+  test('rejects an API key of a user without a subscription with 402', async () => {
+    const response = await request(`ak_${freeUser.email}`);
+
+    expect(response.status).toBe(402);
+    expect((await response.json()).code).toBe('subscription_required');
+    expect(sessionWrites).toHaveLength(0);
+  });
+
+  test('caches the plan of a session once it is loaded', async () => {
+    sessions.set('session-1', session(subscriber.id));
+
+    expect((await request('session-1')).status).toBe(200);
+    expect((await request('session-1')).status).toBe(200);
+
+    expect(sessionWrites).toHaveLength(1);
+    expect(sessionWrites[0].plan).toMatchObject({ slug: 'pro', status: SubscriptionStatus.ACTIVE });
+  });
+
+  test('does not write the session of a user without a subscription', async () => {
+    sessions.set('session-2', session(freeUser.id));
+
+    expect((await request('session-2')).status).toBe(402);
+    expect((await request('session-2')).status).toBe(402);
+
+    expect(sessionWrites).toHaveLength(0);
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Subscription middleware that ensures the user has an active subscription.
+ * Must be used after authentication middleware to access the session plan.
+ */
+
+import type { Context } from 'elysia';
+import type { AppContext, AuthContext, SessionPlan } from '../types/types';
+import { PaymentRequiredError, UnauthorizedError } from '../errors';
+
+/**
+ * Creates a middleware that checks if the authenticated user has an active (or trialing)
+ * subscription, optionally to one of the given plans.
+ * Uses the plan cached in the session; when it does not grant access, the plan is reloaded
+ * from the database so new subscriptions apply immediately, and written back to the session
+ * only when it changed. API key requests have no session, so their plan is always read from the database.
+ * Throws PaymentRequiredError (402) if no matching subscription is active.
+ *
+ * @param plans Accepted plan slugs; any plan is accepted when empty
+ * @returns Middleware function for Elysia hooks
+ * @throws PaymentRequiredError When the user has no active subscription to a required plan
+ */
+export const subscriptionMiddleware = (...plans: string[]) => async (context: Context) => {
+  const ctx = context as Context & AppContext['decorator'] & Partial<AuthContext>;
+  if (!ctx.userId) throw new UnauthorizedError();
+
+  const { subscriptions } = ctx.services;
+  if (subscriptions.hasActivePlan(ctx.plan, plans)) return;
+
+  // The cached plan may be stale (e.g. the user just subscribed), check the database
+  const plan = await subscriptions.getSessionPlan(ctx.db, ctx.userId);
+  // API key requests have no session to cache the plan in
+  if (ctx.sessionId && !samePlan(plan, ctx.plan)) {
+    await ctx.services.auth.sessions.updateSession(ctx.sessionId, { plan });
+  }
+  ctx.plan = plan;
+
+  if (!subscriptions.hasActivePlan(plan, plans)) {
+    throw new PaymentRequiredError(
+      plans.length ? `An active subscription to one of these plans is required: ${plans.join(', ')}` : 'An active subscription is required',
+      'subscription_required',
+      plans.length ? { plans } : undefined,
+    );
+  }
+
+  return;
+};
+
+/**
+ * Compares two plan snapshots field by field.
+ */
+function samePlan(a: SessionPlan | undefined, b: SessionPlan | undefined): boolean {
+  if (!a || !b) return a === b;
+
+  return a.slug === b.slug && a.status === b.status && a.currentPeriodEnd === b.currentPeriodEnd;
+}
@@ -0,0 +1,268 @@
+/**
+ * Account helpers shared by every login method (OAuth and email/password).
+ * Resolve the `users` row behind an external identity and open sessions for it.
+ */
+
+import type { ApiDatabase } from '../../db/db';
+import { schema, type User } from '../../db/schema';
+import { ConflictError, ForbiddenError } from '../../errors';
+import type { SessionDevice, Services } from '../../types/types';
+import type { CognitoTokens } from '../aws/aws';
+import { UserRole } from '../enums';
+
+/**
+ * Provider name used in `oauth_accounts` for email/password accounts.
+ * Its provider ID is the Cognito username, which is the user's email.
+ */
+export const PASSWORD_PROVIDER = 'cognito';
+
+/**
+ * Normalizes an email address (trimmed, lowercase), so one address always maps to the same user.
+ *
+ * @param email Email address as entered or reported by a provider
+ * @returns string Normalized email
+ */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Finds the user linked to an external identity, creating and linking it when needed:
+ * - if the identity is already linked, its user is used
+ * - otherwise, if the provider verified the email, a user with the same email is reused, so different login methods merge
+ * - if no user exists, a new one is created and admins are notified
+ * Unverified emails are never merged nor used to create users: the user must log in and link the provider explicitly.
+ * Emails are matched and stored normalized (see {@link normalizeEmail}).
+ *
+ * @param db Database instance
+ * @param services Services container
+ * @param provider Identity provider (an OAuth provider or `cognito`)
+ * @param providerId User ID on the provider side
+ * @param email Email reported by the provider
+ * @param emailVerified Whether the provider verified the email
+ * @param name Optional display name
+ * @param picture Optional avatar URL
+ * @returns Promise<User> Resolved user
+ * @throws BannedUserError if the user is banned
+ * @throws DeletedUserError if the user was deleted
+ * @throws AccountExistsError if the email belongs to another account and is not verified
+ * @throws EmailNotVerifiedError if a new user would be created from an unverified email
+ */
+export async function findOrCreateUser(
+  { db, services }: { db: ApiDatabase; services: Services },
+  {
+    provider,
+    providerId,
+    email,
+    emailVerified,
+    name,
+    picture,
+  }: {
+    provider: string;
+    providerId: string;
+    email: string;
+    emailVerified: boolean;
+    name?: string;
+    picture?: string;
+  },
+): Promise<User> {
+  const address = normalizeEmail(email);
+
+  // Check if this account (provider + providerId) already exists
+  const account = await db.query.oauthAccounts.findFirst({
+    where: (oauthAccounts, { and, eq }) =>
+      and(eq(oauthAccounts.provider, provider), eq(oauthAccounts.providerId, providerId)),
+  });
+
+  let user = account
+    ? await db.query.users.findFirst({ where: (users, { eq }) => eq(users.id, account.userId) })
+    : await db.query.users.findFirst({ where: (users, { eq, sql }) => eq(sql`lower(${users.email})`, address) });
+
+  // Only a verified email proves the identity belongs to the owner of the existing account
+  if (!account && !emailVerified) {
+    throw user ? new AccountExistsError() : new EmailNotVerifiedError();
+  }
+
+  if (!user) {
+    // Create new user (first time login)
+    const [newUser] = await db
+      .insert(schema.users)
+      .values({
+        email: address,
+        name,
+        picture,
+        status: 'active',
+        role: UserRole.USER,
+      })
+      .returning();
+    user = newUser;
+    await services.roles.assignSystemRole(db, { userId: user.id, role: UserRole.USER });
+
+    // Send welcome/registration notification to admins
+    services.notifications.notify('users.registration', {
+      email: user.email,
+      userId: user.id,
+      provider,
+    });
+  }
+
+  // Prevent banned and deleted users from logging in
+  if (user.status === 'banned') throw new BannedUserError();
+  if (user.deletedAt) throw new DeletedUserError();
+
+  if (!account) {
+    // Link this provider to the user (supports multiple login methods per user)
+    await db.insert(schema.oauthAccounts).values({ provider, providerId, userId: user.id });
+  }
+
+  return user;
+}
+
+/**
+ * Links an external identity to a logged-in user (explicit linking, no email matching).
+ *
+ * @param db Database instance
+ * @param userId User linking the identity
+ * @param provider Identity provider
+ * @param providerId User ID on the provider side
+ * @returns Promise<User> Linked user
+ * @throws AccountLinkedError if the identity already belongs to another user
+ */
+export async function linkAccount(
+  db: ApiDatabase,
+  { userId, provider, providerId }: { userId: string; provider: string; providerId: string },
+): Promise<User> {
+  const user = await db.query.users.findFirst({ where: (users, { eq }) => eq(users.id, userId) });
+  if (!user || user.deletedAt) throw new DeletedUserError();
+  if (user.status === 'banned') throw new BannedUserError();
+
+  const account = await db.query.oauthAccounts.findFirst({
+    where: (oauthAccounts, { and, eq }) =>
+      and(eq(oauthAccounts.provider, provider), eq(oauthAccounts.providerId, providerId)),
+  });
+
+  if (account) {
+    if (account.userId !== userId) throw new AccountLinkedError(provider);
+    return user; // already linked to this user
+  }
+
+  await db.insert(schema.oauthAccounts).values({ provider, providerId, userId });
+
+  return user;
+}
+
+/**
+ * Opens a session for a user with their current role, permissions, status and plan.
+ * Users with 2FA enabled get a `pending_mfa` session, activated by `POST /auth/mfa/verify`.
+ *
+ * @param db Database instance
+ * @param services Services container
+ * @param user User to log in
+ * @param cognito Cognito tokens of password logins, kept to renew them with the session
+ * @param device User agent and IP of the client logging in
+ * @param rememberMe Whether to open a long-lived "remember me" session (see `SessionPolicy`)
+ * @returns Promise<{ sessionId: string; mfaRequired: boolean }> New session ID, and whether it awaits a 2FA code
+ */
+export async function createUserSession(
+  { db, services }: { db: ApiDatabase; services: Services },
+  user: User,
+  { cognito, device, rememberMe }: { cognito?: CognitoTokens; device?: Omit<SessionDevice, 'createdAt' | 'lastSeen'>; rememberMe?: boolean } = {},
+): Promise<{ sessionId: string; mfaRequired: boolean }> {
+  const mfaRequired = await services.auth.mfa.isEnabled(db, user.id);
+
+  const sessionId = await services.auth.sessions.createSession({
+    userId: user.id,
+    role: user.role as UserRole,
+    status: user.status,
+    permissions: await services.roles.getUserPermissions(db, user.id),
+    plan: await services.subscriptions.getSessionPlan(db, user.id),
+    cognito: cognito?.refreshToken ? { refreshToken: cognito.refreshToken, expiresAt: cognito.expiresAt } : undefined,
+    device,
+    mfa: mfaRequired,
+    rememberMe,
+  });
+
+  return { sessionId, mfaRequired };
+}
+
+/**
+ * Picks the user fields that are safe to return to clients.
+ *
+ * @param user User row
+ * @returns Public user info
+ */
+export function toPublicUser({ id, email, name, picture, role, status }: User) {
+  return { id, email, name, picture, role, status };
+}
+
+/**
+ * Error thrown when a banned user tries to log in.
+ */
+export class BannedUserError extends ForbiddenError {
+  name = 'BannedUserError';
+
+  /**
+   * Creates a banned user error.
+   */
+  constructor() {
+    super('Your account has been banned. Please contact support.', 'user_banned');
+  }
+}
+
+/**
+ * Error thrown when a deleted user tries to log in.
+ */
+export class DeletedUserError extends ForbiddenError {
+  name = 'DeletedUserError';
+
+  /**
+   * Creates a deleted user error.
+   */
+  constructor() {
+    super('This account has been deleted. Please contact support.', 'user_deleted');
+  }
+}
+
+/**
+ * Error thrown when an unverified email matches an existing account.
+ */
+export class AccountExistsError extends ConflictError {
+  name = 'AccountExistsError';
+
+  /**
+   * Creates an account exists error.
+   */
+  constructor() {
+    super('An account with this email already exists. Log in to it and link this provider from your profile.', 'account_exists');
+  }
+}
+
+/**
+ * Error thrown when a new user would be created from an email the provider did not verify.
+ */
+export class EmailNotVerifiedError extends ForbiddenError {
+  name = 'EmailNotVerifiedError';
+
+  /**
+   * Creates an email not verified error.
+   */
+  constructor() {
+    super('Your email is not verified with this provider. Verify it and try again.', 'email_not_verified');
+  }
+}
+
+/**
+ * Error thrown when linking an identity that already belongs to another user.
+ */
+export class AccountLinkedError extends ConflictError {
+  name = 'AccountLinkedError';
+
+  /**
+   * Creates an account linked error.
+   *
+   * @param provider Identity provider
+   */
+  constructor(provider: string) {
+    super(`This ${provider} account is already linked to another user.`, 'account_linked');
+  }
+}
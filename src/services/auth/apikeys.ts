@@ -0,0 +1,174 @@
+/**
+ * Personal API keys for machine-to-machine access.
+ * Keys act on behalf of their user, limited to their scopes (see `ApiKeyScope`), and are accepted by the auth
+ * middleware in place of a session. Only a keyed hash of each key is stored, plus a short prefix to tell keys apart.
+ * The hash is keyed with `SESSION_ENCRYPTION_KEY`: without it, API keys are disabled (none can be created or used).
+ */
+
+import { and, asc, count, eq } from 'drizzle-orm';
+import type { ApiDatabase } from '../../db/db';
+import { schema, type ApiKey, type User } from '../../db/schema';
+import { ConflictError, ServiceUnavailableError } from '../../errors';
+import { keyedHash } from './encryption';
+
+/** Prefix of every API key, which tells them apart from session tokens */
+export const API_KEY_PREFIX = 'ak_';
+
+const MAX_KEYS = 25; // per user
+const VISIBLE_CHARS = 8; // after API_KEY_PREFIX
+const LAST_USED_PRECISION = 60 * 1000; // 1 minute, so keys are not written to on every request
+
+/**
+ * Checks whether a bearer token is an API key (rather than a session ID).
+ *
+ * @param token Bearer token
+ * @returns boolean True if the token has the API key prefix
+ */
+export function isApiKey(token: string): boolean {
+  return token.startsWith(API_KEY_PREFIX);
+}
+
+/**
+ * Checks whether API keys can be used, i.e. `SESSION_ENCRYPTION_KEY` (the key of their hashes) is set.
+ *
+ * @returns boolean True if API keys are enabled
+ */
+export function isEnabled(): boolean {
+  return Boolean(process.env.SESSION_ENCRYPTION_KEY);
+}
+
+/**
+ * Creates an API key for a user.
+ *
+ * @param db Database instance
+ * @param userId Owner of the key
+ * @param data Key name, scopes and optional expiry
+ * @returns Promise<{ apiKey: ReturnType<typeof toPublicApiKey>; key: string }> Created key and its plain-text value, only available now
+ * @throws TooManyApiKeysError if the user already has the maximum number of keys
+ * @throws ApiKeysUnavailableError if API keys are disabled
+ */
+export async function createKey(
+  db: ApiDatabase,
+  userId: string,
+  { name, scopes, expiresAt }: { name: string; scopes: string[]; expiresAt?: Date },
+) {
+  if (!isEnabled()) throw new ApiKeysUnavailableError();
+
+  const [{ keys }] = await db.select({ keys: count() }).from(schema.apiKeys).where(eq(schema.apiKeys.userId, userId));
+  if (keys >= MAX_KEYS) throw new TooManyApiKeysError();
+
+  const key = API_KEY_PREFIX + Buffer.from(crypto.getRandomValues(new Uint8Array(32))).toString('base64url');
+
+  const [apiKey] = await db
+    .insert(schema.apiKeys)
+    .values({
+      userId,
+      name,
+      prefix: key.slice(0, API_KEY_PREFIX.length + VISIBLE_CHARS),
+      keyHash: keyedHash(key),
+      scopes: [...new Set(scopes)].sort(),
+      expiresAt,
+    })
+    .returning();
+
+  return { apiKey: toPublicApiKey(apiKey), key };
+}
+
+/**
+ * Lists the API keys of a user, oldest first.
+ *
+ * @param db Database instance
+ * @param userId User ID
+ * @returns Promise<ReturnType<typeof toPublicApiKey>[]> Keys, without their hashes
+ */
+export async function listKeys(db: ApiDatabase, userId: string) {
+  const keys = await db
+    .select()
+    .from(schema.apiKeys)
+    .where(eq(schema.apiKeys.userId, userId))
+    .orderBy(asc(schema.apiKeys.createdAt));
+
+  return keys.map(toPublicApiKey);
+}
+
+/**
+ * Revokes (deletes) an API key of a user.
+ *
+ * @param db Database instance
+ * @param userId Owner of the key
+ * @param id Key ID
+ * @returns Promise<boolean> True if the key existed
+ */
+export async function revokeKey(db: ApiDatabase, userId: string, id: string): Promise<boolean> {
+  const deleted = await db
+    .delete(schema.apiKeys)
+    .where(and(eq(schema.apiKeys.id, id), eq(schema.apiKeys.userId, userId)))
+    .returning();
+
+  return deleted.length > 0;
+}
+
+/**
+ * Finds the key and user of an API key, recording its use.
+ *
+ * @param db Database instance
+ * @param key Plain-text API key
+ * @returns Promise<{ apiKey: ApiKey; user: User } | null> Key and owner, or null if the key is unknown,
+ * expired, its user was deleted or API keys are disabled
+ */
+export async function authenticate(db: ApiDatabase, key: string): Promise<{ apiKey: ApiKey; user: User } | null> {
+  if (!isEnabled()) return null;
+
+  const apiKey = await db.query.apiKeys.findFirst({
+    where: eq(schema.apiKeys.keyHash, keyedHash(key)),
+    with: { user: true },
+  });
+  if (!apiKey || apiKey.user.deletedAt) return null;
+  if (apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now()) return null;
+
+  if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() >= LAST_USED_PRECISION) {
+    await db.update(schema.apiKeys).set({ lastUsedAt: new Date() }).where(eq(schema.apiKeys.id, apiKey.id));
+  }
+
+  const { user, ...rest } = apiKey;
+
+  return { apiKey: rest, user };
+}
+
+/**
+ * Strips an API key down to the fields safe to return to its owner.
+ *
+ * @param apiKey API key row
+ * @returns Public key data (no hash)
+ */
+export function toPublicApiKey({ id, name, prefix, scopes, createdAt, expiresAt, lastUsedAt }: ApiKey) {
+  return { id, name, prefix, scopes, createdAt, expiresAt, lastUsedAt };
+}
+
+/**
+ * Error thrown when a user has too many API keys.
+ */
+export class TooManyApiKeysError extends ConflictError {
+  name = 'TooManyApiKeysError';
+
+  /**
+   * Creates a too many API keys error.
+   */
+  constructor() {
+    super(`You can have at most ${MAX_KEYS} API keys. Revoke one first.`, 'too_many_api_keys');
+  }
+}
+
+/**
+ * Error thrown when creating an API key while API keys are disabled.
+ */
+export class ApiKeysUnavailableError extends ServiceUnavailableError {
+  name = 'ApiKeysUnavailableError';
+
+  /**
+   * Creates an API keys unavailable error.
+   */
+  constructor() {
+    super('API keys are not available.', 'api_keys_unavailable');
+  }
+}
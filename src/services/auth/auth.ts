@@ -1,79 +1,43 @@
 /**
- * Main authentication service that coordinates OAuth, Cognito, and session management.
+ * Main authentication service that coordinates OAuth, Cognito, accounts, and session management.
  * Provides centralized authentication functionality for all providers.
  */
 
 import type { RedisClient } from 'bun';
-import { Provider } from '../enums/enums';
-import { SessionManager } from './sessions';
-import { OAuthManager, type OAuthConfig } from './oauth';
+import { durationFromEnv } from '../../config';
+import type { Cognito, SES } from '../aws/aws';
+import { DEFAULT_SESSION_POLICY, SessionManager, type SessionPolicy } from './sessions';
+import * as accounts from './accounts';
+import * as apiKeys from './apikeys';
+import * as mfa from './mfa';
+import { OAuthManager, type OAuthOptions } from './oauth';
+import { PasswordlessManager } from './passwordless';
+import { providersFromEnv } from './providers';
 
 /**
- * Authentication service that manages OAuth providers, AWS Cognito, and user sessions.
+ * Authentication service that manages OAuth providers, AWS Cognito, passwordless emails, 2FA, API keys and user sessions.
  * Automatically configures available OAuth providers based on environment variables.
  */
 export class Auth {
+  public accounts = accounts;
+  public apiKeys = apiKeys;
+  public mfa = mfa;
   public sessions: SessionManager;
   public oauth: OAuthManager;
+  public passwordless: PasswordlessManager;
 
   /**
    * Initializes the authentication service with session manager, Cognito auth,
    * and configures OAuth providers based on available environment variables.
    *
    * @param redisClient Shared Redis client instance
+   * @param cognito Cognito service used to renew password sessions
+   * @param ses SES service used to send passwordless login emails
    */
-  constructor(redisClient: RedisClient) {
-    this.sessions = new SessionManager(redisClient);
-    
-    // Configure OAuth providers
-    const oauthConfigs: OAuthConfig[] = [];
-
-    if (process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET) {
-      oauthConfigs.push({
-        name: Provider.GOOGLE,
-        clientId: process.env.GOOGLE_CLIENT_ID,
-        clientSecret: process.env.GOOGLE_CLIENT_SECRET,
-        urls: {
-          auth: 'https://accounts.google.com/o/oauth2/auth',
-          token: 'https://oauth2.googleapis.com/token',
-          user: 'https://www.googleapis.com/oauth2/v3/userinfo',
-        },
-        scopes: [
-          "https://www.googleapis.com/auth/userinfo.profile",
-				  "https://www.googleapis.com/auth/userinfo.email",
-        ],
-      });
-    }
-
-    if (process.env.GITHUB_CLIENT_ID && process.env.GITHUB_CLIENT_SECRET) {
-      oauthConfigs.push({
-        name: Provider.GITHUB,
-        clientId: process.env.GITHUB_CLIENT_ID,
-        clientSecret: process.env.GITHUB_CLIENT_SECRET,
-        urls: {
-          auth:  "https://api.github.com/login/oauth/authorize",
-          token: "https://api.github.com/login/oauth/access_token",
-          user:  "https://api.github.com/user",
-        },
-        scopes: ["read:user", "user:email"]
-      });
-    }
-
-    if (process.env.DISCORD_CLIENT_ID && process.env.DISCORD_CLIENT_SECRET) {
-      oauthConfigs.push({
-        name: Provider.DISCORD,
-        clientId: process.env.DISCORD_CLIENT_ID,
-        clientSecret: process.env.DISCORD_CLIENT_SECRET,
-        urls: {
-          auth:  "https://discord.com/api/oauth2/authorize",
-				  token: "https://discord.com/api/oauth2/token",
-				  user:  "https://discord.com/api/users/@me",
-        },
-        scopes: ["identify", "email"]
-      });
-    }
-
-    this.oauth = new OAuthManager(oauthConfigs);
+  constructor(redisClient: RedisClient, cognito: Cognito, ses: SES) {
+    this.sessions = new SessionManager(redisClient, cognito, sessionPolicyFromEnv());
+    this.oauth = new OAuthManager(providersFromEnv(), redisClient, oauthOptionsFromEnv());
+    this.passwordless = new PasswordlessManager(redisClient, ses);
   }
 
   /**
@@ -84,4 +48,40 @@ export class Auth {
   generateState(): string {
     return crypto.randomUUID();
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Reads the OAuth callback configuration:
+ * `OAUTH_RETURN_TO_ALLOWLIST` and `OAUTH_ALLOWED_ORIGINS` (comma separated) and `OAUTH_CALLBACK_MODE`.
+ *
+ * @returns OAuthOptions OAuth manager options
+ */
+function oauthOptionsFromEnv(): OAuthOptions {
+  const list = (value?: string) => (value || '').split(',').map((entry) => entry.trim()).filter(Boolean);
+
+  return {
+    returnToAllowlist: list(process.env.OAUTH_RETURN_TO_ALLOWLIST),
+    allowedOrigins: list(process.env.OAUTH_ALLOWED_ORIGINS),
+    defaultMode: process.env.OAUTH_CALLBACK_MODE === 'redirect' ? 'redirect' : 'popup',
+  };
+}
+
+/**
+ * Reads the session policy: `SESSION_IDLE_TIMEOUT`, `SESSION_MAX_LIFETIME`, `SESSION_REMEMBER_ME_LIFETIME`,
+ * `SESSION_REFRESH_THRESHOLD` and `SESSION_CACHE_TTL`, as durations like `30m`, `24h` or `7d` (plain numbers are seconds).
+ * The refresh threshold defaults to 5 minutes less than the idle timeout, so sessions are written at most every 5 minutes.
+ *
+ * @returns SessionPolicy Session policy, with defaults for unset variables
+ * @throws Error if a variable is not a valid duration
+ */
+function sessionPolicyFromEnv(): SessionPolicy {
+  const idleTimeout = durationFromEnv('SESSION_IDLE_TIMEOUT', DEFAULT_SESSION_POLICY.idleTimeout);
+
+  return {
+    idleTimeout,
+    maxLifetime: durationFromEnv('SESSION_MAX_LIFETIME', DEFAULT_SESSION_POLICY.maxLifetime),
+    rememberMeLifetime: durationFromEnv('SESSION_REMEMBER_ME_LIFETIME', DEFAULT_SESSION_POLICY.rememberMeLifetime),
+    refreshThreshold: durationFromEnv('SESSION_REFRESH_THRESHOLD', Math.max(idleTimeout - 5 * 60 * 1000, 0)),
+    cacheTtl: durationFromEnv('SESSION_CACHE_TTL', DEFAULT_SESSION_POLICY.cacheTtl),
+  };
+}
@@ -0,0 +1,60 @@
+/**
+ * Symmetric encryption for secrets kept in Redis sessions or the database (e.g. Cognito refresh tokens, TOTP secrets).
+ * Uses AES-256-GCM with a key derived from `SESSION_ENCRYPTION_KEY`.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes } from 'node:crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+/**
+ * Encrypts a string.
+ *
+ * @param plaintext Value to encrypt
+ * @returns string `iv.tag.ciphertext`, each part base64url-encoded
+ */
+export function encrypt(plaintext: string): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64url')).join('.');
+}
+
+/**
+ * Decrypts a value produced by {@link encrypt}.
+ *
+ * @param value `iv.tag.ciphertext` string
+ * @returns string Decrypted value
+ * @throws Error if the value was tampered with or encrypted with another key
+ */
+export function decrypt(value: string): string {
+  const [iv, tag, ciphertext] = value.split('.').map((part) => Buffer.from(part, 'base64url'));
+
+  const decipher = createDecipheriv(ALGORITHM, getKey(), iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
+
+/**
+ * Hashes a secret that is looked up by value (e.g. a recovery code) with HMAC-SHA256,
+ * so a leaked database alone does not allow guessing it offline.
+ *
+ * @param value Secret to hash
+ * @returns string Hex digest
+ */
+export function keyedHash(value: string): string {
+  return createHmac('sha256', getKey()).update(value).digest('hex');
+}
+
+/**
+ * Derives the 256-bit key from `SESSION_ENCRYPTION_KEY`, so any high-entropy string works.
+ */
+function getKey(): Buffer {
+  const secret = process.env.SESSION_ENCRYPTION_KEY;
+  if (!secret) throw new Error('SESSION_ENCRYPTION_KEY is not set');
+
+  return createHash('sha256').update(secret).digest();
+}
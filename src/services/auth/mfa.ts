@@ -0,0 +1,219 @@
+/**
+ * Two-factor authentication with TOTP (authenticator apps) and one-time recovery codes.
+ * Users with 2FA enabled get sessions in the `pending_mfa` state on every login method,
+ * which only the verify endpoint accepts until a code is checked here.
+ */
+
+import { and, count, eq, isNull, lt, or } from 'drizzle-orm';
+import type { ApiDatabase } from '../../db/db';
+import { schema, type User } from '../../db/schema';
+import { BadRequestError, ConflictError, UnauthorizedError } from '../../errors';
+import { decrypt, encrypt, keyedHash } from './encryption';
+import * as totp from './totp';
+
+const RECOVERY_CODES = 10;
+
+/** Wrong codes a `pending_mfa` session may enter before it is deleted */
+export const MAX_VERIFY_ATTEMPTS = 5;
+
+/**
+ * Checks whether a user has confirmed a 2FA enrollment.
+ *
+ * @param db Database instance
+ * @param userId User ID
+ * @returns Promise<boolean> True if 2FA is enabled
+ */
+export async function isEnabled(db: ApiDatabase, userId: string): Promise<boolean> {
+  const mfa = await db.query.userMfa.findFirst({ where: eq(schema.userMfa.userId, userId) });
+
+  return !!mfa?.enabledAt;
+}
+
+/**
+ * Gets the 2FA status of a user.
+ *
+ * @param db Database instance
+ * @param userId User ID
+ * @returns Promise<{ enabled: boolean; enabledAt: Date | null; recoveryCodesLeft: number }> 2FA status
+ */
+export async function getStatus(db: ApiDatabase, userId: string) {
+  const mfa = await db.query.userMfa.findFirst({ where: eq(schema.userMfa.userId, userId) });
+  const [{ left }] = await db
+    .select({ left: count() })
+    .from(schema.mfaRecoveryCodes)
+    .where(and(eq(schema.mfaRecoveryCodes.userId, userId), isNull(schema.mfaRecoveryCodes.usedAt)));
+
+  return { enabled: !!mfa?.enabledAt, enabledAt: mfa?.enabledAt ?? null, recoveryCodesLeft: mfa?.enabledAt ? left : 0 };
+}
+
+/**
+ * Starts (or restarts) a TOTP enrollment with a new secret.
+ * 2FA is only enabled once {@link confirmEnrollment} checks a code from the authenticator app.
+ *
+ * @param db Database instance
+ * @param user User enrolling
+ * @returns Promise<{ secret: string; uri: string }> Secret and `otpauth://` URI to show as a QR code
+ * @throws MfaAlreadyEnabledError if 2FA is already enabled
+ */
+export async function startEnrollment(db: ApiDatabase, user: User) {
+  if (await isEnabled(db, user.id)) throw new MfaAlreadyEnabledError();
+
+  const secret = totp.generateSecret();
+  const values = { totpSecret: encrypt(secret), enabledAt: null, lastUsedStep: null, updatedAt: new Date() };
+
+  await db
+    .insert(schema.userMfa)
+    .values({ userId: user.id, ...values })
+    .onConflictDoUpdate({ target: schema.userMfa.userId, set: values });
+
+  const issuer = process.env.MFA_ISSUER || new URL(process.env.BASE_URL).hostname;
+
+  return { secret, uri: totp.provisioningUri(secret, user.email, issuer) };
+}
+
+/**
+ * Confirms a TOTP enrollment with a code from the authenticator app, enabling 2FA.
+ *
+ * @param db Database instance
+ * @param userId User ID
+ * @param code Code from the authenticator app
+ * @returns Promise<string[]> Recovery codes, shown once
+ * @throws MfaAlreadyEnabledError if 2FA is already enabled
+ * @throws MfaNotEnrollingError if no enrollment was started
+ * @throws InvalidMfaCodeError if the code is wrong
+ */
+export async function confirmEnrollment(db: ApiDatabase, userId: string, code: string): Promise<string[]> {
+  const mfa = await db.query.userMfa.findFirst({ where: eq(schema.userMfa.userId, userId) });
+  if (!mfa) throw new MfaNotEnrollingError();
+  if (mfa.enabledAt) throw new MfaAlreadyEnabledError();
+
+  const step = totp.verifyCode(decrypt(mfa.totpSecret), code);
+  if (step === null) throw new InvalidMfaCodeError();
+
+  await db
+    .update(schema.userMfa)
+    .set({ enabledAt: new Date(), lastUsedStep: step, updatedAt: new Date() })
+    .where(eq(schema.userMfa.userId, userId));
+
+  return regenerateRecoveryCodes(db, userId);
+}
+
+/**
+ * Checks a second factor: a TOTP code or an unused recovery code, which is then spent.
+ * TOTP codes are single-use too: a code (or an older one) is rejected once accepted.
+ *
+ * @param db Database instance
+ * @param userId User ID
+ * @param code TOTP code (6 digits) or recovery code
+ * @returns Promise<boolean> True if the code is valid
+ */
+export async function verify(db: ApiDatabase, userId: string, code: string): Promise<boolean> {
+  const mfa = await db.query.userMfa.findFirst({ where: eq(schema.userMfa.userId, userId) });
+  if (!mfa?.enabledAt) return false;
+
+  const normalized = code.replace(/[\s-]/g, '');
+
+  if (/^\d{6}$/.test(normalized)) {
+    const step = totp.verifyCode(decrypt(mfa.totpSecret), normalized, { afterStep: mfa.lastUsedStep });
+    if (step === null) return false;
+
+    // Conditional update, so two requests racing with the same code cannot both succeed
+    const updated = await db
+      .update(schema.userMfa)
+      .set({ lastUsedStep: step, updatedAt: new Date() })
+      .where(and(
+        eq(schema.userMfa.userId, userId),
+        or(isNull(schema.userMfa.lastUsedStep), lt(schema.userMfa.lastUsedStep, step)),
+      ))
+      .returning();
+
+    return updated.length > 0;
+  }
+
+  const spent = await db
+    .update(schema.mfaRecoveryCodes)
+    .set({ usedAt: new Date() })
+    .where(and(
+      eq(schema.mfaRecoveryCodes.userId, userId),
+      eq(schema.mfaRecoveryCodes.codeHash, keyedHash(normalized.toLowerCase())),
+      isNull(schema.mfaRecoveryCodes.usedAt),
+    ))
+    .returning();
+
+  return spent.length > 0;
+}
+
+/**
+ * Replaces the recovery codes of a user with new ones.
+ *
+ * @param db Database instance
+ * @param userId User ID
+ * @returns Promise<string[]> Recovery codes (`xxxxx-xxxxx`), shown once; only their hashes are stored
+ */
+export async function regenerateRecoveryCodes(db: ApiDatabase, userId: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODES }, () => {
+    const code = totp.generateSecret().slice(0, 10).toLowerCase();
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+
+  await db.delete(schema.mfaRecoveryCodes).where(eq(schema.mfaRecoveryCodes.userId, userId));
+  await db.insert(schema.mfaRecoveryCodes).values(
+    codes.map((code) => ({ userId, codeHash: keyedHash(code.replace('-', '')) })),
+  );
+
+  return codes;
+}
+
+/**
+ * Disables 2FA, removing the TOTP secret and the recovery codes.
+ *
+ * @param db Database instance
+ * @param userId User ID
+ * @returns Promise<void>
+ */
+export async function disable(db: ApiDatabase, userId: string): Promise<void> {
+  await db.delete(schema.mfaRecoveryCodes).where(eq(schema.mfaRecoveryCodes.userId, userId));
+  await db.delete(schema.userMfa).where(eq(schema.userMfa.userId, userId));
+}
+
+/**
+ * Error thrown when enrolling a user who already has 2FA enabled.
+ */
+export class MfaAlreadyEnabledError extends ConflictError {
+  name = 'MfaAlreadyEnabledError';
+
+  /**
+   * Creates an MFA already enabled error.
+   */
+  constructor() {
+    super('Two-factor authentication is already enabled.', 'mfa_already_enabled');
+  }
+}
+
+/**
+ * Error thrown when confirming an enrollment that was not started.
+ */
+export class MfaNotEnrollingError extends BadRequestError {
+  name = 'MfaNotEnrollingError';
+
+  /**
+   * Creates an MFA not enrolling error.
+   */
+  constructor() {
+    super('Start the two-factor enrollment first.', 'mfa_not_enrolling');
+  }
+}
+
+/**
+ * Error thrown when a TOTP or recovery code is wrong.
+ */
+export class InvalidMfaCodeError extends UnauthorizedError {
+  name = 'InvalidMfaCodeError';
+
+  /**
+   * Creates an invalid MFA code error.
+   */
+  constructor() {
+    super('Invalid two-factor code.', 'invalid_mfa_code');
+  }
+}
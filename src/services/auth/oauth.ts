@@ -1,69 +1,264 @@
 /**
- * OAuth 2.0 integration for multiple providers (Google, GitHub, Discord).
- * Handles authorization flows, token exchange, and profile retrieval.
+ * OAuth 2.0 integration for the providers registered from config (Google, GitHub, Discord, OpenID Connect).
+ * Handles authorization flows, token exchange, profile retrieval and link tokens,
+ * which let a logged-in user attach a provider to their account.
+ *
+ * The state, PKCE verifier and nonce of a flow never reach the browser: they are kept in Redis
+ * (`oauth:flow:{state}`) for 5 minutes and consumed once by the callback. The browser only holds
+ * the opaque state in an httpOnly cookie, which binds the callback to the browser that started it.
+ *
+ * The result reaches the client either through a popup page that posts it to allowlisted origins only,
+ * or through a redirect carrying a one-time code, exchanged with `POST /auth/oauth/exchange`.
  */
 
-import { Provider } from '../enums/enums';
+import type { RedisClient } from 'bun';
 import type { OAuthProfile } from '../../types/types';
+import { InvalidTokenError } from '../aws/tokens';
+import type { OAuthProvider, OAuthTokens } from './providers';
 
 const redirectUri = (provider: string) => `${process.env.BASE_URL}${process.env.OAUTH_REDIRECT_URI_BASE}/${provider}`;
 
+/** httpOnly cookie holding the opaque state of the flow started by the browser */
+export const FLOW_COOKIE_KEY = 'oauth_flow';
+export const FLOW_TTL = 5 * 60; // 5 minutes
+const LINK_TOKEN_TTL = FLOW_TTL;
+const EXCHANGE_CODE_TTL = 60; // 1 minute
+
+/** Names reserved for login methods that are not OAuth providers */
+const RESERVED_NAMES = ['cognito', 'email'];
+
+/**
+ * How the callback hands the result back to the client:
+ * - `popup`: an HTML page posts it to the window that opened the popup
+ * - `redirect`: a redirect to `returnTo` (a web page or a native deep link) carries it
+ */
+export type OAuthFlowMode = 'popup' | 'redirect';
+
+/**
+ * Configuration of the OAuth manager, see `oauthOptionsFromEnv`.
+ */
+export interface OAuthOptions {
+  /**
+   * URLs clients may return to; a `returnTo` matches an entry with the same scheme and host whose
+   * path is a prefix of its path (e.g. `https://app.example.com/auth`, `myapp://oauth`).
+   * The first entry is the default `returnTo` of `redirect` mode.
+   */
+  returnToAllowlist?: string[];
+  /** Origins the popup page posts the result to (e.g. `https://app.example.com`) */
+  allowedOrigins?: string[];
+  /** Mode of flows that do not choose one (default `popup`) */
+  defaultMode?: OAuthFlowMode;
+}
+
 /**
- * OAuth provider configuration interface.
+ * Result of a finished flow, handed to the client.
  */
-export interface OAuthConfig {
-  name: Provider;
-  clientId: string;
-  clientSecret: string;
-  urls: {
-    auth: string;
-    token: string;
-    user: string;
-  },
-  scopes: string[];
+export interface OAuthResult {
+  userId: string;
+  /** Session created by a login */
+  sessionId?: string;
+  /** The session is `pending_mfa`: the client must call `POST /auth/mfa/verify` with it */
+  mfaRequired?: boolean;
 }
 
-const STATE_COOKIE_KEY = 'oauth_state';
-const VERIFIER_COOKIE_KEY = 'oauth_pkce_verifier';
-const COOKIE_EXPIRATION = 5 * 60; // 5 minutes
+/**
+ * Identity returned by the callback of a link flow, attached once the user who started it confirms it.
+ */
+export interface PendingLink {
+  /** User who started the link */
+  userId: string;
+  provider: string;
+  /** User ID on the provider side */
+  providerId: string;
+}
+
+/**
+ * Options of an OAuth flow, chosen when it starts.
+ */
+export interface OAuthFlowOptions {
+  mode: OAuthFlowMode;
+  /** Allowlisted URL to return to, required in `redirect` mode */
+  returnTo?: string;
+  /** User linking the provider (from a link token); the flow logs in when unset */
+  linkUserId?: string;
+  /** Open a "remember me" session when the flow logs in */
+  rememberMe?: boolean;
+}
+
+/**
+ * Server-side record of a started OAuth flow.
+ */
+export interface OAuthFlow extends OAuthFlowOptions {
+  provider: string;
+  verifier: string;
+  nonce?: string;
+}
 
 /**
- * OAuth manager that handles multiple OAuth providers and their authentication flows.
- * Supports Google, GitHub, and Discord OAuth 2.0 integrations.
+ * OAuth manager that holds the provider registry and runs their authentication flows.
  */
 export class OAuthManager {
-  private configs: Map<Provider, OAuthConfig> = new Map();
+  private providers: Map<string, OAuthProvider> = new Map();
 
   /**
-   * Initializes OAuth manager with provider configurations.
+   * Initializes OAuth manager with the configured providers.
    * 
-   * @param configs Array of OAuth provider configurations
+   * @param providers Provider definitions, see `providersFromEnv`
+   * @param redis Shared Redis client, used to store flows, link tokens and exchange codes
+   * @param options Return URL and origin allowlists, and the default mode
    */
-  constructor(configs: OAuthConfig[]) {
-    for (const cfg of configs) {
-      this.configs.set(cfg.name, cfg);
+  constructor(providers: OAuthProvider[], private redis: RedisClient, private options: OAuthOptions = {}) {
+    for (const provider of providers) {
+      this.register(provider);
     }
   }
 
   /**
-   * Generates OAuth authorization URL for the specified provider.
-   * 
-   * @param provider OAuth provider (Google, GitHub, Discord)
-   * @param state CSRF protection state parameter
-   * @returns string Authorization URL to redirect user to
-   * @throws Error if provider is not configured or unsupported
+   * Adds a provider to the registry.
+   *
+   * @param provider Provider definition
+   * @throws Error if the name is invalid, reserved or already registered
    */
-  async getAuthUrl(provider: Provider, setCookie: (name: string, value: string, exp: number) => void) {
-    const cfg = this.configs.get(provider);
-    if (!cfg) {
-      throw new Error(`OAuth provider ${provider} not configured`);
+  register(provider: OAuthProvider): void {
+    if (!/^[a-z0-9-]+$/.test(provider.name)) {
+      throw new Error(`Invalid OAuth provider name "${provider.name}": use lowercase letters, digits and dashes`);
+    }
+    if (RESERVED_NAMES.includes(provider.name)) {
+      throw new Error(`OAuth provider name "${provider.name}" is reserved`);
     }
+    if (this.providers.has(provider.name)) {
+      throw new Error(`OAuth provider ${provider.name} is already registered`);
+    }
+
+    this.providers.set(provider.name, provider);
+  }
+
+  /**
+   * Checks whether a provider is registered.
+   *
+   * @param provider Provider name
+   * @returns boolean True if the provider is configured
+   */
+  isConfigured(provider: string): boolean {
+    return this.providers.has(provider);
+  }
+
+  /**
+   * Lists the registered providers.
+   *
+   * @returns string[] Provider names
+   */
+  names(): string[] {
+    return [...this.providers.keys()];
+  }
+
+  /**
+   * Creates a short-lived, single-use token that binds an OAuth flow to a logged-in user,
+   * so the callback links the provider to that user instead of logging in.
+   *
+   * @param userId User starting the link
+   * @returns Promise<string> Link token
+   */
+  async createLinkToken(userId: string): Promise<string> {
+    const token = crypto.randomUUID();
+    await this.redis.set(linkTokenKey(token), userId, 'EX', LINK_TOKEN_TTL);
+
+    return token;
+  }
+
+  /**
+   * Consumes a link token created by {@link createLinkToken}.
+   *
+   * @param token Link token
+   * @returns Promise<string | null> User that started the link, or null if the token is unknown or expired
+   */
+  async consumeLinkToken(token: string): Promise<string | null> {
+    return this.redis.send('GETDEL', [linkTokenKey(token)]);
+  }
+
+  /**
+   * Stores the identity returned by a link flow behind a one-time code, valid for 5 minutes.
+   * The flow may have run in another browser than the one of the user who started it (e.g. a link URL sent to
+   * someone else), so the identity is only attached when that user confirms the code with their own credentials.
+   *
+   * @param link User who started the link and identity to attach
+   * @returns Promise<string> Link code
+   */
+  async createPendingLink(link: PendingLink): Promise<string> {
+    const code = randomToken();
+    await this.redis.set(pendingLinkKey(code), JSON.stringify(link), 'EX', LINK_TOKEN_TTL);
+
+    return code;
+  }
+
+  /**
+   * Consumes a link code created by {@link createPendingLink}.
+   *
+   * @param code Link code
+   * @returns Promise<PendingLink | null> Pending link, or null if the code is unknown, expired or used
+   */
+  async consumePendingLink(code: string): Promise<PendingLink | null> {
+    const raw = await this.redis.send('GETDEL', [pendingLinkKey(code)]);
+
+    return raw ? JSON.parse(raw) as PendingLink : null;
+  }
+
+  /**
+   * Checks a `returnTo` URL against the allowlist.
+   *
+   * @param returnTo URL given by the client
+   * @returns boolean True if an allowlisted entry covers it
+   */
+  isAllowedReturnTo(returnTo: string): boolean {
+    const target = parseUrl(returnTo);
+    if (!target || target.username || target.password) return false;
+
+    return (this.options.returnToAllowlist ?? []).some((entry) => {
+      const allowed = parseUrl(entry);
+      if (!allowed || allowed.protocol !== target.protocol || allowed.host !== target.host) return false;
+
+      // `/auth` allows `/auth` and `/auth/...`, not `/authority`
+      const path = allowed.pathname.replace(/\/+$/, '');
+      return !path || target.pathname === path || target.pathname.startsWith(`${path}/`);
+    });
+  }
+
+  /**
+   * Resolves the mode and return URL of a flow from the client's choice and the configured defaults.
+   *
+   * @param mode Mode chosen by the client
+   * @param returnTo Return URL chosen by the client, checked with {@link isAllowedReturnTo} by the caller
+   * @returns Pick<OAuthFlowOptions, 'mode' | 'returnTo'> Mode and return URL (missing in `redirect` mode if none is configured)
+   */
+  flowOptions(mode?: OAuthFlowMode, returnTo?: string): Pick<OAuthFlowOptions, 'mode' | 'returnTo'> {
+    const resolved = mode ?? this.options.defaultMode ?? 'popup';
+    if (resolved === 'redirect') return { mode: resolved, returnTo: returnTo ?? this.options.returnToAllowlist?.[0] };
+
+    return { mode: resolved, returnTo };
+  }
+
+  /**
+   * Starts a flow: stores its state, PKCE verifier and nonce in Redis and builds the authorization URL.
+   * The caller must keep the returned state in the {@link FLOW_COOKIE_KEY} httpOnly cookie.
+   * 
+   * @param provider Provider name
+   * @param options Mode, return URL and linking user of the flow
+   * @returns Promise<{ url: string; state: string }> Authorization URL to redirect user to, and the flow state
+   * @throws Error if provider is not configured or its endpoints cannot be resolved
+   */
+  async getAuthUrl(provider: string, options: OAuthFlowOptions): Promise<{ url: string; state: string }> {
+    const cfg = this.get(provider);
+    const { authorization } = await cfg.endpoints();
 
-    const verifier = crypto.randomUUID();
     const state = crypto.randomUUID();
+    const flow: OAuthFlow = {
+      ...options,
+      provider,
+      verifier: crypto.randomUUID(),
+      nonce: cfg.nonce ? crypto.randomUUID() : undefined,
+    };
 
-    setCookie(STATE_COOKIE_KEY, state, COOKIE_EXPIRATION);
-    setCookie(VERIFIER_COOKIE_KEY, verifier, COOKIE_EXPIRATION);
+    await this.redis.set(flowKey(state), JSON.stringify(flow), 'EX', FLOW_TTL);
     
     const params = new URLSearchParams({
       client_id: cfg.clientId,
@@ -71,152 +266,81 @@ export class OAuthManager {
       response_type: 'code',
       state,
       code_challenge_method: 'S256',
-      code_challenge: await this.generateCodeChallenge(verifier),
+      code_challenge: await this.generateCodeChallenge(flow.verifier),
       scope: cfg.scopes.join(' '),
     });
 
-    return `${cfg.urls.auth}?${params.toString()}`;
-  }
-
-  /**
-   * Exchanges OAuth authorization code for user profile information.
-   * 
-   * @param provider OAuth provider that returned the code
-   * @param code Authorization code from OAuth callback
-   * @returns Promise<OAuthProfile> Standardized user profile data
-   * @throws Error if provider is not configured or exchange fails
-   */
-  async exchangeCodeForProfile(provider: Provider, code: string, state: string, getCookie: (name: string) => string): Promise<OAuthProfile> {
-    const cfg = this.configs.get(provider);
-    if (!cfg) {
-      throw new Error(`OAuth provider ${provider} not configured`);
-    }
-    
-    const storedState = getCookie(STATE_COOKIE_KEY);
-    const verifier = getCookie(VERIFIER_COOKIE_KEY);
-
-    if (state !== storedState) throw new Error('Invalid state parameter');
-    if (!verifier) throw new Error('Missing PKCE verifier');
-        
-    switch (provider) {
-      case Provider.GOOGLE:
-        return this.handleGoogleOAuth(code, verifier);
-      case Provider.GITHUB:
-        return this.handleGitHubOAuth(code, verifier);
-      case Provider.DISCORD:
-        return this.handleDiscordOAuth(code, verifier);
-      default:
-        throw new Error(`Unsupported provider: ${provider}`);
-    }
-  }
+    if (flow.nonce) params.set('nonce', flow.nonce);
 
-  /**
-   * Handles Google OAuth 2.0 token exchange and profile retrieval.
-   * 
-   * @param cfg Google OAuth configuration
-   * @param code Authorization code from Google
-   * @param redirectUri Redirect URI used in the OAuth flow
-   * @returns Promise<OAuthProfile> Google user profile data
-   */
-  private async handleGoogleOAuth(code: string, verifier: string): Promise<OAuthProfile> {
-    const profile = await this.fetchUser(Provider.GOOGLE, code, verifier);
-    
-    return {
-      id: profile.sub,
-      name: profile.name,
-      email: profile.email,
-      picture: profile.picture,
-      provider: Provider.GOOGLE,
-    };
+    return { url: `${authorization}?${params.toString()}`, state };
   }
 
   /**
-   * Handles GitHub OAuth token exchange and profile retrieval.
-   * Includes additional API call to get primary email address.
-   * 
-   * @param cfg GitHub OAuth configuration
-   * @param code Authorization code from GitHub
-   * @param redirectUri Redirect URI used in the OAuth flow
-   * @returns Promise<OAuthProfile> GitHub user profile data
+   * Consumes the flow of a callback. A flow can only be used once.
+   *
+   * @param provider Provider name of the callback
+   * @param state State returned by the provider
+   * @param cookieState State kept in the {@link FLOW_COOKIE_KEY} cookie of the browser
+   * @returns Promise<OAuthFlow | null> The flow, or null if the state is unknown, expired, reused,
+   * belongs to another browser or to another provider
    */
-  private async handleGitHubOAuth(code: string, verifier: string): Promise<OAuthProfile> {
-    const profile = await this.fetchUser(Provider.GITHUB, code, verifier);
-    
-    // GitHub may not return email in the initial profile response
-    let email: string = profile.email;
-    if (!email) {
-      const emailsResponse = await fetch('https://api.github.com/user/emails', {
-        headers: { Authorization: `Bearer ${profile.access_token}` },
-      });
-      const emails = await emailsResponse.json();
-      const primaryEmail = emails.find((e: any) => e.primary) || emails[0];
-      email = primaryEmail?.email;
-    }
+  async consumeFlow(provider: string, state: string, cookieState: string | undefined): Promise<OAuthFlow | null> {
+    if (!cookieState || cookieState !== state) return null;
 
-    if (!email) {
-      throw new Error('Email not available from GitHub profile');
-    }
+    const raw = await this.redis.send('GETDEL', [flowKey(state)]);
+    if (!raw) return null;
 
-    return {
-      id: profile.id.toString(),
-      name: profile.name || profile.login,
-      email,
-      picture: profile.avatar_url,
-      provider: Provider.GITHUB,
-    };
+    const flow = JSON.parse(raw) as OAuthFlow;
+    return flow.provider === provider ? flow : null;
   }
 
   /**
-   * Handles Discord OAuth token exchange and profile retrieval.
+   * Exchanges OAuth authorization code for user profile information.
    * 
-   * @param cfg Discord OAuth configuration
-   * @param code Authorization code from Discord
-   * @param redirectUri Redirect URI used in the OAuth flow
-   * @returns Promise<OAuthProfile> Discord user profile data
+   * @param code Authorization code from OAuth callback
+   * @param flow Flow consumed by {@link consumeFlow}
+   * @returns Promise<OAuthProfile> Standardized user profile data
+   * @throws Error if provider is not configured or exchange fails
    */
-  private async handleDiscordOAuth(code: string, verifier: string): Promise<OAuthProfile> {
-    const profile = await this.fetchUser(Provider.DISCORD, code, verifier);
-    if (!profile.verified) throw new Error('Discord email not verified');
-
-    return {
-      id: profile.id,
-      name: profile.username,
-      email: profile.email,
-      picture: profile.avatar ? `https://cdn.discordapp.com/avatars/${profile.id}/${profile.avatar}.png` : undefined,
-      provider: Provider.DISCORD,
-    };
+  async exchangeCodeForProfile(code: string, flow: OAuthFlow): Promise<OAuthProfile> {
+    const cfg = this.get(flow.provider);
+    const tokens = await this.exchangeCode(cfg, code, flow.verifier);
+
+    return cfg.profile(tokens, { nonce: flow.nonce });
   }
 
-  private async fetchUser(provider: Provider, code: string, verifier: string) {
-    const cfg = this.configs.get(provider);
+  private get(provider: string): OAuthProvider {
+    const cfg = this.providers.get(provider);
     if (!cfg) {
       throw new Error(`OAuth provider ${provider} not configured`);
     }
 
-     // Exchange code for token
-    const tokenResponse = await fetch(cfg.urls.token, {
+    return cfg;
+  }
+
+  private async exchangeCode(cfg: OAuthProvider, code: string, verifier: string): Promise<OAuthTokens> {
+    const { token } = await cfg.endpoints();
+
+    const response = await fetch(token, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'application/json', // GitHub answers form-encoded otherwise
+      },
       body: new URLSearchParams({
         client_id: cfg.clientId,
         client_secret: cfg.clientSecret,
         code,
         code_verifier: verifier,
         grant_type: 'authorization_code',
-        redirect_uri: redirectUri(provider),
+        redirect_uri: redirectUri(cfg.name),
       }),
     });
 
-    const tokens = await tokenResponse.json();
-    
-    // Get user profile
-    const profileResponse = await fetch(cfg.urls.user, {
-      headers: { Authorization: `Bearer ${tokens.access_token}` },
-    });
+    const tokens = await response.json().catch(() => ({})) as Partial<OAuthTokens>;
+    if (!response.ok || !tokens.access_token) throw new InvalidTokenError();
 
-    const profile = await profileResponse.json();
-    profile.access_token = tokens.access_token; // Attach access token for further use if needed
-    return profile;
+    return tokens as OAuthTokens;
   }
 
   private async generateCodeChallenge(verifier: string) {
@@ -224,15 +348,58 @@ export class OAuthManager {
     return Buffer.from(hash).toString('base64url');
   }
 
+  /**
+   * Stores the result of a `redirect` mode flow behind a one-time code, valid for 1 minute.
+   *
+   * @param result Result of the flow
+   * @returns Promise<string> Exchange code
+   */
+  async createExchangeCode(result: OAuthResult): Promise<string> {
+    const code = randomToken();
+    await this.redis.set(exchangeCodeKey(code), JSON.stringify(result), 'EX', EXCHANGE_CODE_TTL);
+
+    return code;
+  }
+
+  /**
+   * Consumes an exchange code created by {@link createExchangeCode}.
+   *
+   * @param code Exchange code
+   * @returns Promise<OAuthResult | null> Result of the flow, or null if the code is unknown, expired or used
+   */
+  async consumeExchangeCode(code: string): Promise<OAuthResult | null> {
+    const raw = await this.redis.send('GETDEL', [exchangeCodeKey(code)]);
+
+    return raw ? JSON.parse(raw) as OAuthResult : null;
+  }
+
+  /**
+   * Builds the redirect of a `redirect` mode callback, carrying only the one-time code.
+   * The code goes in the URL fragment, which browsers and apps do not send to servers.
+   *
+   * @param returnTo Allowlisted URL chosen when the flow started
+   * @param code Exchange code from {@link createExchangeCode}, or link code from {@link createPendingLink}
+   * @param param Fragment parameter of the code: `code`, or `link_code` for a link
+   * @returns string URL to redirect to
+   */
+  redirectUrl(returnTo: string, code: string, param = 'code'): string {
+    const url = new URL(returnTo);
+    url.hash = new URLSearchParams({ [param]: code }).toString();
+
+    return url.toString();
+  }
+
   /**
    * Generates HTML response for OAuth callback with window.postMessage.
-   * Used to pass user data and session token back to the opening window.
+   * Used to pass user data and the session token (or the code of a link) back to the opening window.
+   * The message only goes to the allowlisted origins, so a page from any other origin that opened
+   * the popup receives nothing. With no allowed origins configured, nothing is posted.
    *
-   * @param user User data to return
-   * @param sessionId Session token for the authenticated user
+   * @param data Data to post, e.g. `{ user, sessionId }` after a login or `{ linkCode, provider }` after a link,
+   * plus the flow's `returnTo`
    * @returns HTML string with JavaScript to post message to opener
    */
-  html(user: any, sessionId: string) {
+  html(data: object) {
     return `
       <!DOCTYPE html>
       <html lang="en">
@@ -246,20 +413,23 @@ export class OAuthManager {
         <p>Redirecting...</p>
 
         <script>
-          function send(data) {
+          function send(data, origins) {
             if (!window.opener || window.opener.closed) {
               alert("Please close this window and return to the application.");
               window.close();
               return;
             }
 
-            window.opener.postMessage({
-              type: "oauth-callback",
-              data,
-            }, "*");
+            // Only delivered if the opener is on one of these origins
+            for (const origin of origins) {
+              window.opener.postMessage({
+                type: "oauth-callback",
+                data,
+              }, origin);
+            }
 
             window.onmessage = (event) => {
-              if (event.data === 'close') {
+              if (origins.includes(event.origin) && event.data === 'close') {
                 window.close();
               }
             }
@@ -268,6 +438,66 @@ export class OAuthManager {
         </script>
       </body>
     </html>
-    `.replace('{{script}}', `send(${JSON.stringify({ user, sessionId })});`);
+    `.replace('{{script}}', () => `send(${scriptJson(data)}, ${scriptJson(this.options.allowedOrigins ?? [])});`);
+  }
+}
+
+/**
+ * Serializes a value for a `<script>` block.
+ * `<`, `>` and `&` are escaped so the value cannot close the tag or open a comment,
+ * and U+2028/U+2029 so it stays valid in older JavaScript engines.
+ */
+function scriptJson(value: unknown): string {
+  return JSON.stringify(value)
+    .replace(/</g, '\\u003c')
+    .replace(/>/g, '\\u003e')
+    .replace(/&/g, '\\u0026')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+}
+
+/**
+ * Generates an unguessable URL-safe token.
+ */
+function randomToken(): string {
+  return Buffer.from(crypto.getRandomValues(new Uint8Array(32))).toString('base64url');
+}
+
+/**
+ * Redis key of a started flow.
+ */
+function flowKey(state: string): string {
+  return `oauth:flow:${state}`;
+}
+
+/**
+ * Parses a URL, returning null if it is invalid.
+ */
+function parseUrl(url: string): URL | null {
+  try {
+    return new URL(url);
+  } catch {
+    return null;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Redis key of an exchange code.
+ */
+function exchangeCodeKey(code: string): string {
+  return `oauth:code:${code}`;
+}
+
+/**
+ * Redis key of the identity of a link flow, waiting for confirmation.
+ */
+function pendingLinkKey(code: string): string {
+  return `oauth:pending-link:${code}`;
+}
+
+/**
+ * Redis key of a link token.
+ */
+function linkTokenKey(token: string): string {
+  return `oauth:link:${token}`;
+}
@@ -0,0 +1,206 @@
+/**
+ * Passwordless login by email: a magic link and a 6-digit code, sent together.
+ * Both are single-use, expire after 15 minutes and are stored hashed in Redis
+ * (`passwordless:{emailHash}` and `passwordless:token:{tokenHash}`); requesting a new email invalidates them.
+ * Wrong codes are counted atomically (`passwordless:attempts:{emailHash}`), so concurrent guesses share the limit.
+ */
+
+import type { RedisClient } from 'bun';
+import { randomInt, timingSafeEqual } from 'node:crypto';
+import { TooManyRequestsError } from '../../errors';
+import type { SES } from '../aws/aws';
+import { normalizeEmail } from './accounts';
+import { keyedHash } from './encryption';
+
+/**
+ * Provider name used in `oauth_accounts` for passwordless accounts; its provider ID is the email.
+ */
+export const PASSWORDLESS_PROVIDER = 'email';
+
+const LOGIN_TTL = 15 * 60; // 15 minutes
+const MAX_REQUESTS = 5; // emails per address per LOGIN_TTL
+const MAX_CODE_ATTEMPTS = 5;
+
+/**
+ * Pending passwordless login of an email, stored in Redis.
+ */
+interface PasswordlessLogin {
+  tokenHash: string;
+  codeHash: string;
+  /** Allowlisted URL to send the session to after the link is opened */
+  returnTo?: string;
+  /** Open a "remember me" session */
+  rememberMe?: boolean;
+}
+
+/**
+ * Manages passwordless logins: sends the email and consumes the link or the code.
+ */
+export class PasswordlessManager {
+  /**
+   * Initializes the passwordless manager.
+   *
+   * @param redis Shared Redis client, used to store pending logins and rate limits
+   * @param ses SES service used to send the emails
+   */
+  constructor(private redis: RedisClient, private ses: SES) {}
+
+  /**
+   * Checks whether emails can be sent.
+   *
+   * @returns boolean True if SES has a sender address
+   */
+  isConfigured(): boolean {
+    return this.ses.isConfigured();
+  }
+
+  /**
+   * Emails a new magic link and code to an address, invalidating the previous ones.
+   *
+   * @param address Email address (normalized to lowercase)
+   * @param returnTo Allowlisted URL to return to after the link is opened
+   * @param rememberMe Whether the login opens a "remember me" session
+   * @returns Promise<void>
+   * @throws TooManyLoginEmailsError if the address requested too many emails recently
+   */
+  async request(address: string, { returnTo, rememberMe }: { returnTo?: string; rememberMe?: boolean } = {}): Promise<void> {
+    const email = normalizeEmail(address);
+
+    const rateKey = `passwordless:rate:${keyedHash(email)}`;
+    const requests = await this.redis.incr(rateKey);
+    if (requests === 1) await this.redis.expire(rateKey, LOGIN_TTL);
+    if (requests > MAX_REQUESTS) throw new TooManyLoginEmailsError(await this.redis.ttl(rateKey));
+
+    const token = Buffer.from(crypto.getRandomValues(new Uint8Array(32))).toString('base64url');
+    const code = randomInt(0, 1_000_000).toString().padStart(6, '0');
+
+    // Invalidate the link of the previous email; its code goes with the overwritten record
+    const previous = await this.getLogin(email);
+    if (previous) await this.redis.del(tokenKey(previous.tokenHash));
+
+    const login: PasswordlessLogin = { tokenHash: keyedHash(token), codeHash: keyedHash(`${email}:${code}`), returnTo, rememberMe };
+    await this.redis.set(loginKey(email), JSON.stringify(login), 'EX', LOGIN_TTL);
+    await this.redis.del(attemptsKey(email));
+    await this.redis.set(tokenKey(login.tokenHash), email, 'EX', LOGIN_TTL);
+
+    const link = `${process.env.BASE_URL}/auth/magic-link/verify?token=${token}`;
+
+    await this.ses.sendEmail({
+      to: email,
+      subject: 'Your login link',
+      text: `Open this link to log in:\n${link}\n\nOr enter this code: ${code}\n\nThey expire in 15 minutes. If you did not try to log in, ignore this email.`,
+      html: `<p><a href="${escapeHtml(link)}">Log in</a></p><p>Or enter this code: <strong>${code}</strong></p><p>They expire in 15 minutes. If you did not try to log in, ignore this email.</p>`,
+    });
+  }
+
+  /**
+   * Consumes a magic link token.
+   *
+   * @param token Token from the link
+   * @returns Promise<{ email: string; returnTo?: string; rememberMe?: boolean } | null> Email that requested it
+   * (and its return URL and session choice), or null if the token is unknown, expired, used or replaced by a newer one
+   */
+  async consumeToken(token: string): Promise<{ email: string; returnTo?: string; rememberMe?: boolean } | null> {
+    const tokenHash = keyedHash(token);
+
+    const email = await this.redis.send('GETDEL', [tokenKey(tokenHash)]);
+    if (!email) return null;
+
+    const login = await this.getLogin(email);
+    if (!login || login.tokenHash !== tokenHash) return null;
+
+    // Only the request that deletes the record wins, so the link and the code cannot both be used
+    if (!await this.redis.del(loginKey(email))) return null;
+
+    return { email, returnTo: login.returnTo, rememberMe: login.rememberMe };
+  }
+
+  /**
+   * Consumes the code of an email. Every attempt is counted before the code is checked, so at most
+   * `MAX_CODE_ATTEMPTS` codes are ever compared, even concurrently; the last one invalidates the login.
+   *
+   * @param address Email address the code was sent to
+   * @param code 6-digit code
+   * @returns Promise<{ email: string; rememberMe?: boolean } | null> Normalized email (and session choice),
+   * or null if the code is wrong, expired or used
+   */
+  async consumeCode(address: string, code: string): Promise<{ email: string; rememberMe?: boolean } | null> {
+    const email = normalizeEmail(address);
+
+    const login = await this.getLogin(email);
+    if (!login) return null;
+
+    const attempts = await this.redis.incr(attemptsKey(email));
+    if (attempts === 1) await this.redis.expire(attemptsKey(email), LOGIN_TTL);
+    if (attempts > MAX_CODE_ATTEMPTS) return null;
+
+    const expected = Buffer.from(login.codeHash);
+    const actual = Buffer.from(keyedHash(`${email}:${code}`));
+
+    if (!timingSafeEqual(expected, actual)) {
+      if (attempts === MAX_CODE_ATTEMPTS) await this.invalidate(email, login);
+
+      return null;
+    }
+
+    if (!await this.redis.del(loginKey(email))) return null;
+    await this.redis.del(tokenKey(login.tokenHash), attemptsKey(email));
+
+    return { email, rememberMe: login.rememberMe };
+  }
+
+  private async getLogin(email: string): Promise<PasswordlessLogin | null> {
+    const raw = await this.redis.get(loginKey(email));
+
+    return raw ? JSON.parse(raw) as PasswordlessLogin : null;
+  }
+
+  private async invalidate(email: string, login: PasswordlessLogin): Promise<void> {
+    await this.redis.del(loginKey(email));
+    await this.redis.del(tokenKey(login.tokenHash), attemptsKey(email));
+  }
+}
+
+/**
+ * Escapes a value for HTML.
+ */
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Redis key of the pending login of an email.
+ */
+function loginKey(email: string): string {
+  return `passwordless:${keyedHash(email)}`;
+}
+
+/**
+ * Redis key of the count of codes tried for the pending login of an email.
+ */
+function attemptsKey(email: string): string {
+  return `passwordless:attempts:${keyedHash(email)}`;
+}
+
+/**
+ * Redis key of a magic link token, by hash.
+ */
+function tokenKey(tokenHash: string): string {
+  return `passwordless:token:${tokenHash}`;
+}
+
+/**
+ * Error thrown when an address requests too many login emails.
+ */
+export class TooManyLoginEmailsError extends TooManyRequestsError {
+  name = 'TooManyLoginEmailsError';
+
+  /**
+   * Creates a too many login emails error.
+   *
+   * @param retryAfter Seconds until the address may request an email again
+   */
+  constructor(retryAfter: number) {
+    super(Math.max(retryAfter, 1), 'Too many login emails requested. Please wait a few minutes and try again.', 'too_many_login_emails');
+  }
+}
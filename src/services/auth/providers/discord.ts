@@ -0,0 +1,36 @@
+/**
+ * Discord OAuth provider definition.
+ */
+
+import { fetchWithToken, type OAuthClientCredentials, type OAuthProvider } from './provider';
+
+/**
+ * Creates the Discord provider.
+ *
+ * @param credentials Discord application client ID and secret
+ * @returns OAuthProvider Provider definition
+ */
+export function discord({ clientId, clientSecret }: OAuthClientCredentials): OAuthProvider {
+  return {
+    name: 'discord',
+    clientId,
+    clientSecret,
+    scopes: ['identify', 'email'],
+    endpoints: async () => ({
+      authorization: 'https://discord.com/api/oauth2/authorize',
+      token: 'https://discord.com/api/oauth2/token',
+    }),
+    async profile(tokens) {
+      const profile = await fetchWithToken('https://discord.com/api/users/@me', tokens.access_token);
+
+      return {
+        id: profile.id,
+        name: profile.username,
+        email: profile.email,
+        emailVerified: profile.verified === true,
+        picture: profile.avatar ? `https://cdn.discordapp.com/avatars/${profile.id}/${profile.avatar}.png` : undefined,
+        provider: 'discord',
+      };
+    },
+  };
+}
@@ -0,0 +1,48 @@
+/**
+ * GitHub OAuth provider definition.
+ */
+
+import { fetchWithToken, type OAuthClientCredentials, type OAuthProvider } from './provider';
+
+/**
+ * Creates the GitHub provider.
+ * Includes an additional API call to get the primary email address and whether it is verified.
+ *
+ * @param credentials GitHub OAuth app client ID and secret
+ * @returns OAuthProvider Provider definition
+ */
+export function github({ clientId, clientSecret }: OAuthClientCredentials): OAuthProvider {
+  return {
+    name: 'github',
+    clientId,
+    clientSecret,
+    scopes: ['read:user', 'user:email'],
+    endpoints: async () => ({
+      authorization: 'https://github.com/login/oauth/authorize',
+      token: 'https://github.com/login/oauth/access_token',
+    }),
+    async profile(tokens) {
+      const profile = await fetchWithToken('https://api.github.com/user', tokens.access_token);
+
+      // GitHub may not return email in the initial profile response, and only the emails API says if it is verified
+      const emails = await fetchWithToken<{ email: string; primary: boolean; verified: boolean }[]>(
+        'https://api.github.com/user/emails',
+        tokens.access_token,
+      ).catch(() => []);
+
+      const email: string = profile.email || (emails.find((e) => e.primary) || emails[0])?.email;
+      if (!email) {
+        throw new Error('Email not available from GitHub profile');
+      }
+
+      return {
+        id: profile.id.toString(),
+        name: profile.name || profile.login,
+        email,
+        emailVerified: emails.some((e) => e.email === email && e.verified),
+        picture: profile.avatar_url,
+        provider: 'github',
+      };
+    },
+  };
+}
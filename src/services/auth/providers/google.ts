@@ -0,0 +1,39 @@
+/**
+ * Google OAuth provider definition.
+ */
+
+import { fetchWithToken, type OAuthClientCredentials, type OAuthProvider } from './provider';
+
+/**
+ * Creates the Google provider.
+ *
+ * @param credentials Google OAuth client ID and secret
+ * @returns OAuthProvider Provider definition
+ */
+export function google({ clientId, clientSecret }: OAuthClientCredentials): OAuthProvider {
+  return {
+    name: 'google',
+    clientId,
+    clientSecret,
+    scopes: [
+      'https://www.googleapis.com/auth/userinfo.profile',
+      'https://www.googleapis.com/auth/userinfo.email',
+    ],
+    endpoints: async () => ({
+      authorization: 'https://accounts.google.com/o/oauth2/auth',
+      token: 'https://oauth2.googleapis.com/token',
+    }),
+    async profile(tokens) {
+      const profile = await fetchWithToken('https://www.googleapis.com/oauth2/v3/userinfo', tokens.access_token);
+
+      return {
+        id: profile.sub,
+        name: profile.name,
+        email: profile.email,
+        emailVerified: profile.email_verified === true,
+        picture: profile.picture,
+        provider: 'google',
+      };
+    },
+  };
+}
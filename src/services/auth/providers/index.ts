@@ -0,0 +1,66 @@
+/**
+ * OAuth provider definitions and the configuration that registers them.
+ * Built-in providers (Google, GitHub, Discord) are enabled by their client credentials;
+ * any number of OpenID Connect providers can be added with `OIDC_PROVIDERS`.
+ */
+
+import { logger } from '../../logger';
+import { discord } from './discord';
+import { github } from './github';
+import { google } from './google';
+import { oidc } from './oidc';
+import type { OAuthClientCredentials, OAuthProvider } from './provider';
+
+export { discord, github, google, oidc };
+export { fetchWithToken } from './provider';
+export type { OAuthClientCredentials, OAuthEndpoints, OAuthProvider, OAuthTokens } from './provider';
+export type { OidcProviderOptions } from './oidc';
+
+const builtIn: Record<string, (credentials: OAuthClientCredentials) => OAuthProvider> = {
+  GOOGLE: google,
+  GITHUB: github,
+  DISCORD: discord,
+};
+
+/**
+ * Builds the providers configured in the environment.
+ *
+ * - `GOOGLE_`, `GITHUB_` and `DISCORD_` + `CLIENT_ID` / `CLIENT_SECRET` enable the built-in providers.
+ * - `OIDC_PROVIDERS=keycloak,entra` enables OpenID Connect providers, each configured with
+ *   `OIDC_<NAME>_ISSUER`, `OIDC_<NAME>_CLIENT_ID`, `OIDC_<NAME>_CLIENT_SECRET` and,
+ *   optionally, `OIDC_<NAME>_SCOPES` (space separated). Dashes in names become underscores.
+ *
+ * Incomplete entries are skipped with a warning.
+ *
+ * @param env Environment to read (defaults to `process.env`)
+ * @returns OAuthProvider[] Configured providers
+ */
+export function providersFromEnv(env: NodeJS.ProcessEnv = process.env): OAuthProvider[] {
+  const providers: OAuthProvider[] = [];
+
+  for (const [prefix, create] of Object.entries(builtIn)) {
+    const clientId = env[`${prefix}_CLIENT_ID`];
+    const clientSecret = env[`${prefix}_CLIENT_SECRET`];
+    if (clientId && clientSecret) providers.push(create({ clientId, clientSecret }));
+  }
+
+  const names = (env.OIDC_PROVIDERS || '').split(',').map((name) => name.trim().toLowerCase()).filter(Boolean);
+
+  for (const name of names) {
+    const prefix = `OIDC_${name.toUpperCase().replace(/-/g, '_')}`;
+    const issuer = env[`${prefix}_ISSUER`];
+    const clientId = env[`${prefix}_CLIENT_ID`];
+    const clientSecret = env[`${prefix}_CLIENT_SECRET`];
+
+    if (!issuer || !clientId || !clientSecret) {
+      logger.warn(`OpenID Connect provider "${name}" not configured - set ${prefix}_ISSUER, ${prefix}_CLIENT_ID and ${prefix}_CLIENT_SECRET`);
+      continue;
+    }
+
+    const scopes = env[`${prefix}_SCOPES`]?.split(/\s+/).filter(Boolean);
+
+    providers.push(oidc({ name, issuer, clientId, clientSecret, scopes: scopes?.length ? scopes : undefined }));
+  }
+
+  return providers;
+}
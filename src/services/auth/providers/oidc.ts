@@ -0,0 +1,135 @@
+/**
+ * Generic OpenID Connect provider (Keycloak, Microsoft Entra ID, GitLab, Auth0...).
+ * Endpoints and keys come from the issuer's `/.well-known/openid-configuration`,
+ * and the profile is read from the ID token after verifying it.
+ */
+
+import { createRemoteJWKSet, jwtVerify, type JWTPayload, type JWTVerifyGetKey } from 'jose';
+import { InvalidTokenError } from '../../aws/tokens';
+import { fetchWithToken, type OAuthClientCredentials, type OAuthProvider } from './provider';
+
+/**
+ * Subset of the OpenID Provider metadata used by the API.
+ */
+interface OidcMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+}
+
+/**
+ * Options of an OpenID Connect provider.
+ */
+export interface OidcProviderOptions extends OAuthClientCredentials {
+  /** Provider name used in routes and stored in `oauth_accounts.provider` (e.g. `keycloak`) */
+  name: string;
+  /** Issuer URL; `{issuer}/.well-known/openid-configuration` must be reachable */
+  issuer: string;
+  /** Requested scopes (default `openid email profile`) */
+  scopes?: string[];
+}
+
+/**
+ * Creates an OpenID Connect provider.
+ * Discovery runs on first use and is cached (retried if it fails); ID tokens are verified
+ * against the issuer's JWKS, audience (client ID) and the nonce of the authorization request.
+ * When the ID token has no email, the userinfo endpoint is queried.
+ *
+ * @param options Name, issuer, client credentials and scopes
+ * @returns OAuthProvider Provider definition
+ */
+export function oidc({ name, issuer, clientId, clientSecret, scopes = ['openid', 'email', 'profile'] }: OidcProviderOptions): OAuthProvider {
+  let discovery: Promise<OidcMetadata> | undefined;
+  let jwks: JWTVerifyGetKey | undefined;
+
+  const metadata = () => {
+    discovery ??= discover(issuer).catch((error) => {
+      discovery = undefined;
+      throw error;
+    });
+
+    return discovery;
+  };
+
+  return {
+    name,
+    clientId,
+    clientSecret,
+    scopes,
+    nonce: true,
+    async endpoints() {
+      const { authorization_endpoint, token_endpoint } = await metadata();
+
+      return { authorization: authorization_endpoint, token: token_endpoint };
+    },
+    async profile(tokens, { nonce }) {
+      const meta = await metadata();
+      if (!tokens.id_token) throw new InvalidTokenError();
+
+      jwks ??= createRemoteJWKSet(new URL(meta.jwks_uri), {
+        cacheMaxAge: 60 * 60 * 1000, // 1 hour
+      });
+
+      let claims: JWTPayload;
+      try {
+        ({ payload: claims } = await jwtVerify(tokens.id_token, jwks, {
+          issuer: meta.issuer,
+          audience: clientId,
+          requiredClaims: ['sub', 'exp'],
+        }));
+      } catch {
+        throw new InvalidTokenError();
+      }
+
+      if (nonce && claims.nonce !== nonce) throw new InvalidTokenError();
+
+      const subject = claims.sub;
+      if (typeof subject !== 'string') throw new InvalidTokenError();
+
+      if (!claims.email && meta.userinfo_endpoint) {
+        const userinfo = await fetchWithToken<JWTPayload>(meta.userinfo_endpoint, tokens.access_token);
+        // Userinfo must describe the same subject as the ID token (OpenID Connect Core 5.3.2)
+        if (userinfo.sub === subject) claims = { ...userinfo, ...claims };
+      }
+
+      const email = typeof claims.email === 'string' ? claims.email : undefined;
+      if (!email) throw new Error(`Email not available from ${name} profile`);
+
+      return {
+        id: subject,
+        name: String(claims.name ?? claims.preferred_username ?? email),
+        email,
+        emailVerified: claims.email_verified === true,
+        picture: typeof claims.picture === 'string' ? claims.picture : undefined,
+        provider: name,
+      };
+    },
+  };
+}
+
+/**
+ * Fetches and validates the OpenID Provider metadata of an issuer.
+ *
+ * @param issuer Issuer URL
+ * @returns Promise<OidcMetadata> Provider metadata
+ * @throws Error if discovery fails or the metadata belongs to another issuer
+ */
+async function discover(issuer: string): Promise<OidcMetadata> {
+  const base = issuer.replace(/\/+$/, '');
+  const response = await fetch(`${base}/.well-known/openid-configuration`, { headers: { Accept: 'application/json' } });
+  if (!response.ok) throw new Error(`OpenID discovery for ${issuer} failed with status ${response.status}`);
+
+  const metadata = (await response.json()) as OidcMetadata;
+
+  // The metadata must be about the configured issuer (OpenID Connect Discovery 4.3)
+  if (metadata.issuer?.replace(/\/+$/, '') !== base) {
+    throw new Error(`OpenID discovery for ${issuer} returned issuer ${metadata.issuer}`);
+  }
+  if (!metadata.authorization_endpoint || !metadata.token_endpoint || !metadata.jwks_uri) {
+    throw new Error(`OpenID discovery for ${issuer} is missing endpoints`);
+  }
+
+  return metadata;
+}
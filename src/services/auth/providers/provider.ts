@@ -0,0 +1,69 @@
+/**
+ * Contract of an OAuth provider definition, plus helpers shared by the definitions.
+ * Each provider is self-contained: it knows its endpoints, scopes and how to map its profile.
+ */
+
+import type { OAuthProfile } from '../../../types/types';
+
+/**
+ * Client credentials of an OAuth application.
+ */
+export interface OAuthClientCredentials {
+  clientId: string;
+  clientSecret: string;
+}
+
+/**
+ * Endpoints of an OAuth authorization server.
+ */
+export interface OAuthEndpoints {
+  authorization: string;
+  token: string;
+}
+
+/**
+ * Token endpoint response (RFC 6749 section 5.1, plus `id_token` for OpenID Connect).
+ */
+export interface OAuthTokens {
+  access_token: string;
+  token_type?: string;
+  id_token?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * OAuth provider definition, registered in the `OAuthManager`.
+ */
+export interface OAuthProvider extends OAuthClientCredentials {
+  /** Name used in routes (`/auth/oauth/:provider`) and stored in `oauth_accounts.provider` */
+  name: string;
+  scopes: string[];
+  /** Send a `nonce` and expect it back in the ID token (OpenID Connect) */
+  nonce?: boolean;
+  /** Resolves the authorization and token endpoints (static or discovered) */
+  endpoints(): Promise<OAuthEndpoints>;
+  /**
+   * Maps the token response to the user's profile.
+   *
+   * @param tokens Token endpoint response
+   * @param nonce Nonce sent in the authorization request, for providers with `nonce`
+   */
+  profile(tokens: OAuthTokens, { nonce }: { nonce?: string }): Promise<OAuthProfile>;
+}
+
+/**
+ * Fetches a JSON resource with an access token.
+ *
+ * @param url Resource URL
+ * @param accessToken OAuth access token
+ * @returns Promise<T> Parsed response
+ * @throws Error if the response is not successful
+ */
+export async function fetchWithToken<T = any>(url: string, accessToken: string): Promise<T> {
+  const response = await fetch(url, {
+    headers: { Authorization: `Bearer ${accessToken}`, Accept: 'application/json' },
+  });
+  if (!response.ok) throw new Error(`Request to ${url} failed with status ${response.status}`);
+
+  return response.json() as Promise<T>;
+}
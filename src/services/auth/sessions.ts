@@ -1,11 +1,126 @@
 /**
  * Session management using Redis for storing user authentication sessions.
  * Handles session creation, retrieval, refresh, and cleanup with automatic expiration.
+ * Sessions are indexed per user (`user:sessions:{userId}`) so they can be listed and revoked.
+ * Their lifetime follows a {@link SessionPolicy}: an idle timeout, extended as they are used, capped by an absolute lifetime.
+ * Existing sessions are changed with a compare-and-set, so concurrent updates and refreshes never overwrite each other.
  */
 
 import type { RedisClient } from "bun";
-import type { SessionData } from '../../types/types';
-import { UserRole } from '../enums';
+import { createHash } from "node:crypto";
+import { trustProxyFromEnv } from '../../config';
+import type { SessionData, SessionDevice, SessionPlan } from '../../types/types';
+import type { Cognito } from '../aws/aws';
+import { logger } from '../logger';
+import type { UserRole } from '../enums';
+import { decrypt, encrypt } from './encryption';
+
+/** Cognito errors meaning the refresh token can no longer be used (user disabled, deleted or signed out). */
+const REVOKED_COGNITO_ERRORS = ['NotAuthorizedException', 'UserNotFoundException', 'InvalidTokenError'];
+
+const PENDING_MFA_TTL = 5 * 60 * 1000; // 5 minutes to enter the 2FA code
+const MAX_CACHED_SESSIONS = 10_000;
+const MAX_WRITE_ATTEMPTS = 5; // compare-and-set retries when a session changes concurrently
+
+/**
+ * Replaces a session only if it still holds the value it was read with: `SET ... EXAT` and 1, or 0 if it changed
+ * (or expired) in the meantime.
+ */
+const COMPARE_AND_SET_SCRIPT = `
+if redis.call('GET', KEYS[1]) ~= ARGV[1] then return 0 end
+redis.call('SET', KEYS[1], ARGV[2], 'EXAT', ARGV[3])
+return 1
+`;
+
+/**
+ * Lifetime rules of sessions. Durations are in milliseconds.
+ */
+export interface SessionPolicy {
+  /** Sessions expire after this long without requests */
+  idleTimeout: number;
+  /** Sessions expire this long after login, however much they are used */
+  maxLifetime: number;
+  /** Fixed lifetime of "remember me" sessions, which have no idle timeout */
+  rememberMeLifetime: number;
+  /**
+   * The expiry is only extended (and `lastSeen` updated) once less than this much time remains,
+   * so most requests do not write the session. At most `idleTimeout`.
+   */
+  refreshThreshold: number;
+  /** How long sessions read from Redis are served from memory (0 disables the cache); revocations made by other instances apply after it */
+  cacheTtl: number;
+}
+
+/**
+ * Session policy used when none is configured: 24 hours idle, 7 days at most, 30 days with "remember me",
+ * expiry extended at most every 5 minutes, no cache.
+ */
+export const DEFAULT_SESSION_POLICY: SessionPolicy = {
+  idleTimeout: 24 * 60 * 60 * 1000,
+  maxLifetime: 7 * 24 * 60 * 60 * 1000,
+  rememberMeLifetime: 30 * 24 * 60 * 60 * 1000,
+  refreshThreshold: (24 * 60 - 5) * 60 * 1000,
+  cacheTtl: 0,
+};
+
+/**
+ * Session of a user as returned by {@link SessionManager.listUserSessions}.
+ */
+export interface UserSession {
+  sessionId: string;
+  /** Public identifier of the session, safe to expose (see {@link sessionHandle}) */
+  handle: string;
+  data: SessionData;
+}
+
+/**
+ * Derives the public identifier of a session.
+ * Session IDs are bearer tokens, so clients address other sessions by this hash instead.
+ *
+ * @param sessionId Session ID
+ * @returns string SHA-256 based handle (32 hex chars)
+ */
+export function sessionHandle(sessionId: string): string {
+  return createHash('sha256').update(sessionId).digest('hex').slice(0, 32);
+}
+
+/**
+ * Resolves the client IP of a request.
+ * Forwarded headers are only read behind a trusted proxy (see {@link trustProxyFromEnv}), since clients
+ * can send any value: `CF-Connecting-IP` behind Cloudflare, or behind N proxies the right-most
+ * `X-Forwarded-For` address they did not add. Otherwise the socket address is used.
+ *
+ * @param request Incoming request
+ * @param socketIp Socket address of the client (`server.requestIP`), if known
+ * @returns string | undefined Client IP
+ * @throws Error if `TRUST_PROXY` is invalid
+ */
+export function clientIp(request: Request, socketIp?: string): string | undefined {
+  const trustProxy = trustProxyFromEnv();
+  if (!trustProxy) return socketIp;
+
+  if (trustProxy === 'cloudflare') return request.headers.get('cf-connecting-ip')?.trim() || socketIp;
+
+  // Each trusted proxy appends the address it received the request from; the last one is the socket
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',').map((hop) => hop.trim()).filter(Boolean) ?? [];
+  const hops = socketIp ? [...forwarded, socketIp] : forwarded;
+
+  return hops[Math.max(hops.length - 1 - trustProxy, 0)];
+}
+
+/**
+ * Extracts the device metadata stored with a new session from the login request.
+ *
+ * @param request Incoming request
+ * @param ip Socket address of the client, if known
+ * @returns Omit<SessionDevice, 'createdAt' | 'lastSeen'> User agent and client IP (see {@link clientIp})
+ */
+export function requestDevice(request: Request, ip?: string): Omit<SessionDevice, 'createdAt' | 'lastSeen'> {
+  return {
+    userAgent: request.headers.get('user-agent') ?? undefined,
+    ip: clientIp(request, ip),
+  };
+}
 
 /**
  * Session manager that uses Redis to store and manage user sessions.
@@ -13,14 +128,21 @@ import { UserRole } from '../enums';
  */
 export class SessionManager {
   private client: RedisClient;
+  private cognito: Cognito;
+  private policy: SessionPolicy;
+  private cache: Map<string, { data: SessionData; until: number }> = new Map();
 
   /**
    * Initializes the session manager with a shared Redis client.
    *
    * @param redisClient Shared Redis client instance
+   * @param cognito Cognito service used to renew the tokens of password sessions
+   * @param policy Session lifetime rules
    */
-  constructor(redisClient: RedisClient) {
+  constructor(redisClient: RedisClient, cognito: Cognito, policy: SessionPolicy = DEFAULT_SESSION_POLICY) {
     this.client = redisClient;
+    this.cognito = cognito;
+    this.policy = { ...policy, refreshThreshold: Math.min(policy.refreshThreshold, policy.idleTimeout) };
   }
 
   /**
@@ -29,38 +151,62 @@ export class SessionManager {
    * @param userId User ID to associate with the session
    * @param role User role for authorization purposes
    * @param status User status (active, inactive, banned)
+   * @param permissions Permissions granted by the user's roles
+   * @param plan Current subscription plan snapshot, if any
+   * @param cognito Cognito refresh token and ID token expiry (ms) for password sessions; the token is stored encrypted
+   * @param device User agent and IP of the client that logged in
+   * @param mfa Whether the user has 2FA enabled: the session then starts in the `pending_mfa` state, for 5 minutes
+   * @param rememberMe Whether the session lasts the policy's `rememberMeLifetime` instead of expiring when idle
    * @returns Promise<string> Generated session ID
    */
-  async createSession({ userId, role, status }: { userId: string, role: UserRole, status?: 'active' | 'inactive' | 'banned' }): Promise<string> {
+  async createSession({ userId, role, status, permissions, plan, cognito, device, mfa, rememberMe }: { userId: string, role: UserRole, status?: 'active' | 'inactive' | 'banned', permissions?: string[], plan?: SessionPlan, cognito?: { refreshToken: string, expiresAt: number }, device?: Omit<SessionDevice, 'createdAt' | 'lastSeen'>, mfa?: boolean, rememberMe?: boolean }): Promise<string> {
     const sessionId = this.generateSessionId();
+    const now = Date.now();
+    const maxExp = now + (rememberMe ? this.policy.rememberMeLifetime : this.policy.maxLifetime);
     const sessionData: SessionData = {
       userId,
-      role: role as unknown as typeof UserRole,
+      role,
       status: status || 'active',
-      exp: Date.now() + (24 * 60 * 60 * 1000), // 24 hours
+      permissions: permissions ?? [],
+      plan,
+      cognito: cognito && { refreshToken: encrypt(cognito.refreshToken), expiresAt: cognito.expiresAt },
+      device: { ...device, createdAt: now, lastSeen: now },
+      state: mfa ? 'pending_mfa' : 'active',
+      rememberMe: rememberMe || undefined,
+      maxExp,
+      exp: mfa ? now + PENDING_MFA_TTL : Math.min(now + this.idleTimeout(rememberMe), maxExp),
     };
 
-    await this.client.set(sessionId, JSON.stringify(sessionData), "EXAT", Math.floor(sessionData.exp / 1000));
+    await this.write(sessionId, sessionData);
+    await this.index(userId, sessionId);
 
     return sessionId;
   }
 
   /**
-   * Retrieves session data from Redis and checks expiration.
-   * Automatically deletes expired sessions.
+   * Retrieves session data from Redis (or from the in-memory cache, when enabled).
+   * Expired sessions are removed by Redis.
    * 
    * @param sessionId Session ID to retrieve
    * @returns Promise<SessionData | null> Session data or null if not found/expired
    */
   async getSession(sessionId: string): Promise<SessionData | null> {
+    const cached = this.cache.get(sessionId);
+    if (cached && cached.until > Date.now() && cached.data.exp > Date.now()) return cached.data;
+
     try {
       const result = await this.client.get(sessionId);
-      if (!result) return null;
+      if (!result) {
+        this.cache.delete(sessionId);
+        return null;
+      }
+
+      const sessionData: SessionData = JSON.parse(result);
+      this.remember(sessionId, sessionData);
 
-      const sessionData = JSON.parse(result);
       return sessionData;
     } catch (error) {
-      console.error('Error getting session:', error);
+      logger.error('Error getting session', { error });
       return null;
     }
   }
@@ -72,21 +218,278 @@ export class SessionManager {
    * @returns Promise<void>
    */
   async deleteSession(sessionId: string): Promise<void> {
+    const sessionData = await this.getSession(sessionId);
+
+    this.cache.delete(sessionId);
     await this.client.del(sessionId);
+    if (sessionData) await this.client.srem(userSessionsKey(sessionData.userId), sessionId);
+  }
+
+  /**
+   * Lists the live sessions of a user, pruning index entries of expired sessions.
+   *
+   * @param userId User ID
+   * @returns Promise<UserSession[]> Sessions, most recently used first
+   */
+  async listUserSessions(userId: string): Promise<UserSession[]> {
+    const key = userSessionsKey(userId);
+    const sessionIds = await this.client.smembers(key);
+    if (sessionIds.length === 0) return [];
+
+    const values = await this.client.mget(...sessionIds);
+    const sessions: UserSession[] = [];
+    const expired: string[] = [];
+
+    for (const [i, sessionId] of sessionIds.entries()) {
+      const value = values[i];
+      if (!value) {
+        expired.push(sessionId);
+        continue;
+      }
+
+      sessions.push({ sessionId, handle: sessionHandle(sessionId), data: JSON.parse(value) });
+    }
+
+    if (expired.length > 0) await this.client.srem(key, ...expired);
+
+    return sessions.sort((a, b) => (b.data.device?.lastSeen ?? 0) - (a.data.device?.lastSeen ?? 0));
+  }
+
+  /**
+   * Updates fields of every live session of a user (e.g. after a role or status change).
+   *
+   * @param userId User ID
+   * @param data Session fields to overwrite
+   * @returns Promise<number> Number of sessions updated
+   */
+  async updateUserSessions(userId: string, data: Partial<Omit<SessionData, 'exp'>>): Promise<number> {
+    const sessions = await this.listUserSessions(userId);
+
+    await Promise.all(sessions.map(({ sessionId }) => this.updateSession(sessionId, data)));
+
+    return sessions.length;
+  }
+
+  /**
+   * Deletes every session of a user, optionally keeping one (e.g. the current session).
+   *
+   * @param userId User ID
+   * @param except Session ID to keep
+   * @returns Promise<number> Number of sessions deleted
+   */
+  async deleteUserSessions(userId: string, { except }: { except?: string } = {}): Promise<number> {
+    const sessionIds = (await this.listUserSessions(userId))
+      .map(({ sessionId }) => sessionId)
+      .filter((sessionId) => sessionId !== except);
+    if (sessionIds.length === 0) return 0;
+
+    for (const sessionId of sessionIds) this.cache.delete(sessionId);
+    await this.client.del(...sessionIds);
+    await this.client.srem(userSessionsKey(userId), ...sessionIds);
+
+    return sessionIds.length;
+  }
+
+  /**
+   * Updates fields of an existing session without changing its expiration.
+   *
+   * @param sessionId Session ID to update
+   * @param data Session fields to overwrite
+   * @returns Promise<void>
+   */
+  async updateSession(sessionId: string, data: Partial<Omit<SessionData, 'exp'>>): Promise<void> {
+    await this.modify(sessionId, (sessionData) => ({ ...sessionData, ...data }));
+  }
+
+  /**
+   * Counts a 2FA code entered for a `pending_mfa` session. The count is an atomic Redis counter
+   * (`session:mfa-attempts:{handle}`), so concurrent attempts cannot read the same value.
+   *
+   * @param sessionId Session ID
+   * @returns Promise<number> Codes entered so far, this one included
+   */
+  async countMfaAttempt(sessionId: string): Promise<number> {
+    const key = mfaAttemptsKey(sessionId);
+
+    const attempts = await this.client.incr(key);
+    if (attempts === 1) await this.client.send('PEXPIRE', [key, String(PENDING_MFA_TTL)]);
+
+    return attempts;
+  }
+
+  /**
+   * Activates a `pending_mfa` session once its user entered a valid 2FA code, extending it to the full session lifetime.
+   *
+   * @param sessionId Session ID
+   * @returns Promise<boolean> False if the session does not exist
+   */
+  async completeMfa(sessionId: string): Promise<boolean> {
+    const updated = await this.modify(sessionId, (sessionData) => this.extended({ ...sessionData, state: 'active', mfaAt: Date.now() }));
+    if (!updated) return false;
+
+    await this.index(updated.userId, sessionId);
+    await this.client.del(mfaAttemptsKey(sessionId));
+
+    return true;
   }
 
   /**
-   * Refreshes session expiration time to extend user login.
+   * Refreshes session expiration time to extend user login, following the session policy:
+   * the expiry only moves once less than `refreshThreshold` remains, and never past the absolute lifetime.
+   * Password sessions whose Cognito ID token expired also renew their Cognito tokens;
+   * if Cognito refuses (e.g. the user was disabled), the session is deleted.
    * 
    * @param sessionId Session ID to refresh
-   * @returns Promise<void>
+   * @param known Session data, when the caller already read it (saves a round trip)
+   * @returns Promise<boolean> False if the session does not exist, reached its absolute lifetime or was revoked
    */
-  async refreshSession(sessionId: string): Promise<void> {
-    const sessionData = await this.getSession(sessionId);
-    if (!sessionData) return;
+  async refreshSession(sessionId: string, known?: SessionData | null): Promise<boolean> {
+    const sessionData = known ?? await this.getSession(sessionId);
+    if (!sessionData) return false;
+
+    if (this.maxExpiry(sessionData) <= Date.now()) {
+      await this.deleteSession(sessionId);
+      return false;
+    }
+
+    let cognito: SessionData['cognito'];
+
+    if (sessionData.cognito && sessionData.cognito.expiresAt <= Date.now()) {
+      let refreshToken: string;
+      try {
+        refreshToken = decrypt(sessionData.cognito.refreshToken);
+      } catch {
+        // Encrypted with another key: the token is unusable
+        await this.deleteSession(sessionId);
+        return false;
+      }
+
+      try {
+        const tokens = await this.cognito.refresh(refreshToken);
+        cognito = {
+          refreshToken: tokens.refreshToken ? encrypt(tokens.refreshToken) : sessionData.cognito.refreshToken,
+          expiresAt: tokens.expiresAt,
+        };
+      } catch (error) {
+        if (error instanceof Error && REVOKED_COGNITO_ERRORS.includes(error.name)) {
+          await this.deleteSession(sessionId);
+          return false;
+        }
 
-    sessionData.exp = Date.now() + (24 * 60 * 60 * 1000);
-    await this.client.set(sessionId, JSON.stringify(sessionData), "EXAT", Math.floor(sessionData.exp / 1000));
+        // Cognito unavailable: keep the session and retry on the next request
+        logger.error('Error refreshing Cognito tokens', { error });
+      }
+    }
+
+    // Far from expiring: nothing to write
+    if (!cognito && sessionData.exp - Date.now() > this.policy.refreshThreshold) return true;
+
+    const updated = await this.modify(sessionId, (current) => this.extended({ ...current, cognito: cognito ?? current.cognito }));
+    if (!updated) return false;
+
+    await this.index(updated.userId, sessionId);
+
+    return true;
+  }
+
+  /**
+   * Moves the expiry of a session to a full idle timeout from now, capped by its absolute lifetime.
+   */
+  private extended(sessionData: SessionData): SessionData {
+    const now = Date.now();
+    const maxExp = this.maxExpiry(sessionData);
+
+    return {
+      ...sessionData,
+      maxExp,
+      exp: Math.min(now + this.idleTimeout(sessionData.rememberMe), maxExp),
+      device: sessionData.device && { ...sessionData.device, lastSeen: now },
+    };
+  }
+
+  /**
+   * Changes a stored session with a compare-and-set: the change is applied to the value in Redis and only saved
+   * if no other write happened in the meantime, otherwise it is applied again to the new value.
+   *
+   * @returns Promise<SessionData | null> Saved session, or null if it does not exist (anymore)
+   * @throws Error if the session kept changing concurrently
+   */
+  private async modify(sessionId: string, change: (sessionData: SessionData) => SessionData): Promise<SessionData | null> {
+    for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+      const current = await this.client.get(sessionId);
+      if (!current) {
+        this.cache.delete(sessionId);
+        return null;
+      }
+
+      const updated = change(JSON.parse(current));
+      const saved = await this.client.send('EVAL', [
+        COMPARE_AND_SET_SCRIPT,
+        '1',
+        sessionId,
+        current,
+        JSON.stringify(updated),
+        String(Math.ceil(updated.exp / 1000)),
+      ]);
+
+      if (saved === 1) {
+        this.remember(sessionId, updated);
+        return updated;
+      }
+    }
+
+    throw new Error(`Session ${sessionHandle(sessionId)} kept changing while being updated`);
+  }
+
+  /**
+   * Saves a session, expiring it at its `exp`.
+   */
+  private async write(sessionId: string, sessionData: SessionData): Promise<void> {
+    await this.client.set(sessionId, JSON.stringify(sessionData), "EXAT", Math.ceil(sessionData.exp / 1000));
+    this.remember(sessionId, sessionData);
+  }
+
+  /**
+   * Caches a session in memory, when the cache is enabled.
+   */
+  private remember(sessionId: string, sessionData: SessionData): void {
+    if (this.policy.cacheTtl <= 0) return;
+
+    // Maps keep insertion order: drop the oldest entry when full
+    if (this.cache.size >= MAX_CACHED_SESSIONS && !this.cache.has(sessionId)) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest !== undefined) this.cache.delete(oldest);
+    }
+
+    this.cache.set(sessionId, { data: sessionData, until: Date.now() + this.policy.cacheTtl });
+  }
+
+  /**
+   * Idle timeout of a session: "remember me" sessions only expire at their absolute lifetime.
+   */
+  private idleTimeout(rememberMe?: boolean): number {
+    return rememberMe ? this.policy.rememberMeLifetime : this.policy.idleTimeout;
+  }
+
+  /**
+   * Absolute expiry of a session; sessions created before the policy existed count from their login.
+   */
+  private maxExpiry(sessionData: SessionData): number {
+    if (sessionData.maxExp) return sessionData.maxExp;
+
+    const lifetime = sessionData.rememberMe ? this.policy.rememberMeLifetime : this.policy.maxLifetime;
+    return (sessionData.device?.createdAt ?? Date.now()) + lifetime;
+  }
+
+  /**
+   * Adds a session to its user's index and keeps the index alive as long as the longest session could.
+   */
+  private async index(userId: string, sessionId: string): Promise<void> {
+    const key = userSessionsKey(userId);
+    const ttl = Math.max(this.policy.idleTimeout, this.policy.maxLifetime, this.policy.rememberMeLifetime);
+
+    await this.client.sadd(key, sessionId);
+    await this.client.expire(key, Math.ceil(ttl / 1000));
   }
 
   /**
@@ -104,3 +507,17 @@ export class SessionManager {
     return `sess:${id}`;
   }
 }
+
+/**
+ * Redis key of the set of session IDs of a user.
+ */
+function userSessionsKey(userId: string): string {
+  return `user:sessions:${userId}`;
+}
+
+/**
+ * Redis key of the count of 2FA codes entered for a pending session.
+ */
+function mfaAttemptsKey(sessionId: string): string {
+  return `session:mfa-attempts:${sessionHandle(sessionId)}`;
+}
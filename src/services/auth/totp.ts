@@ -0,0 +1,142 @@
+/**
+ * Time-based one-time passwords (RFC 6238) as used by authenticator apps:
+ * HMAC-SHA1, 6 digits, 30-second steps, secrets encoded in base32.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const DIGITS = 6;
+const PERIOD = 30; // seconds
+const SECRET_BYTES = 20; // 160 bits, as recommended by RFC 4226
+
+/**
+ * Generates a new TOTP secret.
+ *
+ * @returns string Base32-encoded secret
+ */
+export function generateSecret(): string {
+  return base32Encode(randomBytes(SECRET_BYTES));
+}
+
+/**
+ * Computes the time step of a moment.
+ *
+ * @param now Time in milliseconds (defaults to now)
+ * @returns number Time step
+ */
+export function timeStep(now: number = Date.now()): number {
+  return Math.floor(now / 1000 / PERIOD);
+}
+
+/**
+ * Generates the code of a time step.
+ *
+ * @param secret Base32-encoded secret
+ * @param step Time step (see {@link timeStep})
+ * @returns string Zero-padded code
+ */
+export function generateCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = createHmac('sha1', base32Decode(secret)).update(counter).digest();
+
+  // Dynamic truncation (RFC 4226 section 5.3)
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** DIGITS).toString().padStart(DIGITS, '0');
+}
+
+/**
+ * Verifies a code, accepting one step of clock drift either way.
+ * Steps at or before `afterStep` are rejected so a code cannot be used twice.
+ *
+ * @param secret Base32-encoded secret
+ * @param code Code entered by the user
+ * @param afterStep Last step accepted for this secret, if any
+ * @param now Time in milliseconds (defaults to now)
+ * @returns number | null Matching time step, or null if the code is invalid or already used
+ */
+export function verifyCode(secret: string, code: string, { afterStep, now }: { afterStep?: number | null; now?: number } = {}): number | null {
+  if (!/^\d{6}$/.test(code)) return null;
+
+  const current = timeStep(now);
+
+  for (const step of [current - 1, current, current + 1]) {
+    if (afterStep != null && step <= afterStep) continue;
+
+    const expected = generateCode(secret, step);
+    if (timingSafeEqual(Buffer.from(expected), Buffer.from(code))) return step;
+  }
+
+  return null;
+}
+
+/**
+ * Builds the `otpauth://` provisioning URI that authenticator apps import, usually through a QR code.
+ *
+ * @param secret Base32-encoded secret
+ * @param account Account label, e.g. the user's email
+ * @param issuer Service name shown by the app
+ * @returns string Provisioning URI
+ */
+export function provisioningUri(secret: string, account: string, issuer: string): string {
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(DIGITS),
+    period: String(PERIOD),
+  });
+
+  return `otpauth://totp/${encodeURIComponent(issuer)}:${encodeURIComponent(account)}?${params.toString()}`;
+}
+
+/**
+ * Encodes bytes in base32 (RFC 4648, no padding).
+ */
+function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+
+  return output;
+}
+
+/**
+ * Decodes base32 (RFC 4648), ignoring padding and case.
+ */
+function base32Decode(input: string): Buffer {
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of input.toUpperCase().replace(/=+$/, '')) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error('Invalid base32 character');
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
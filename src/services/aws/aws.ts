@@ -1,5 +1,6 @@
-import { S3Client, GetObjectCommand, PutObjectCommand } from '@aws-sdk/client-s3';
+import { S3Client, GetObjectCommand, PutObjectCommand, ListObjectsV2Command, DeleteObjectsCommand } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { SESv2Client, SendEmailCommand } from '@aws-sdk/client-sesv2';
 import { 
   CognitoIdentityProviderClient, 
   InitiateAuthCommand,
@@ -8,15 +9,20 @@ import {
   ForgotPasswordCommand,
   ConfirmForgotPasswordCommand,
   ResendConfirmationCodeCommand,
+  AdminDeleteUserCommand,
+  type AuthenticationResultType,
 } from '@aws-sdk/client-cognito-identity-provider';
+import { CognitoTokenVerifier, cognitoIssuer, type CognitoIdTokenClaims } from './tokens';
 
 
 /**
- * AWS service wrapper that handles S3 operations with presigned URLs and direct uploads.
+ * AWS service wrapper that handles S3 operations with presigned URLs and direct uploads,
+ * Cognito authentication and SES emails.
  */
 export class AWS {
   private s3Client: S3Client;
   private cognitoClient: CognitoIdentityProviderClient;
+  private sesClient: SESv2Client;
 
   /**
    * An instance of the AWS S3 client used for interacting with Amazon Simple Storage Service.
@@ -28,6 +34,11 @@ export class AWS {
    */
   cognito: Cognito;
 
+  /**
+   * Instance of the SES service used to send transactional emails.
+   */
+  ses: SES;
+
   /**
    * Initializes the AWS service with S3 client configuration.
    */
@@ -40,31 +51,58 @@ export class AWS {
       region: process.env.AWS_REGION || 'us-east-1',
     });
 
+    this.sesClient = new SESv2Client({
+      region: process.env.AWS_REGION || 'us-east-1',
+    });
+
     this.s3 = new S3(this.s3Client);
     this.cognito = new Cognito(this.cognitoClient);
+    this.ses = new SES(this.sesClient);
   }
 }
 
+/**
+ * Verified Cognito tokens returned by login and refresh.
+ */
+export interface CognitoTokens {
+  idToken: string;
+  /** Only returned on login, or on refresh when refresh token rotation is enabled */
+  refreshToken?: string;
+  claims: CognitoIdTokenClaims;
+  /** ID token expiry, in milliseconds */
+  expiresAt: number;
+}
+
 /**
  * AWS Cognito authentication service wrapper.
- * Handles user registration, login, email confirmation, and password reset flows.
+ * Handles user registration, login, token refresh, email confirmation, and password reset flows.
  */
-class Cognito {
+export class Cognito {
   clientId: string = process.env.COGNITO_CLIENT_ID;
+  verifier: CognitoTokenVerifier;
 
   /**
    * Initializes Cognito client with AWS region configuration.
+   *
+   * @param client Cognito Identity Provider client
+   * @param verifier Optional ID token verifier; defaults to one for `COGNITO_USER_POOL_ID`
    */
-  constructor(private client: CognitoIdentityProviderClient) {}
+  constructor(private client: CognitoIdentityProviderClient, verifier?: CognitoTokenVerifier) {
+    this.verifier = verifier ?? new CognitoTokenVerifier({
+      issuer: cognitoIssuer(process.env.AWS_REGION || 'us-east-1', process.env.COGNITO_USER_POOL_ID),
+      audience: this.clientId,
+    });
+  }
 
   /**
-   * Authenticates user with email and password via Cognito.
+   * Authenticates user with email and password via Cognito and verifies the issued ID token.
    * 
    * @param email User's email address
    * @param password User's password
-   * @returns Promise<InitiateAuthCommandOutput> Cognito authentication response
+   * @returns Promise<CognitoTokens> Verified ID token claims and the refresh token
+   * @throws InvalidTokenError if Cognito does not return a valid ID token
    */
-  async login(email: string, password: string) {
+  async login(email: string, password: string): Promise<CognitoTokens> {
     const command = new InitiateAuthCommand({
       ClientId: this.clientId,
       AuthFlow: 'USER_PASSWORD_AUTH',
@@ -74,7 +112,43 @@ class Cognito {
       },
     });
 
-    return await this.client.send(command);
+    const { AuthenticationResult } = await this.client.send(command);
+    return this.verify(AuthenticationResult);
+  }
+
+  /**
+   * Issues new tokens from a refresh token.
+   * Fails with `NotAuthorizedException` once the user is disabled or the token is revoked.
+   *
+   * @param refreshToken Refresh token returned on login
+   * @returns Promise<CognitoTokens> Verified ID token claims
+   * @throws InvalidTokenError if Cognito does not return a valid ID token
+   */
+  async refresh(refreshToken: string): Promise<CognitoTokens> {
+    const command = new InitiateAuthCommand({
+      ClientId: this.clientId,
+      AuthFlow: 'REFRESH_TOKEN_AUTH',
+      AuthParameters: {
+        REFRESH_TOKEN: refreshToken,
+      },
+    });
+
+    const { AuthenticationResult } = await this.client.send(command);
+    return this.verify(AuthenticationResult);
+  }
+
+  private async verify(result?: AuthenticationResultType): Promise<CognitoTokens> {
+    // A missing result means Cognito answered with a challenge (e.g. NEW_PASSWORD_REQUIRED)
+    if (!result?.IdToken) throw new Error('Cognito did not return tokens');
+
+    const claims = await this.verifier.verifyIdToken(result.IdToken);
+
+    return {
+      idToken: result.IdToken,
+      refreshToken: result.RefreshToken,
+      claims,
+      expiresAt: (claims.exp as number) * 1000,
+    };
   }
 
   /**
@@ -165,6 +239,82 @@ class Cognito {
 
     return await this.client.send(command);
   }
+
+  /**
+   * Deletes a user from the user pool (requires IAM credentials).
+   * Users that do not exist are ignored.
+   *
+   * @param email User's email address (the Cognito username)
+   * @returns Promise<void>
+   */
+  async deleteUser(email: string): Promise<void> {
+    const command = new AdminDeleteUserCommand({
+      UserPoolId: process.env.COGNITO_USER_POOL_ID,
+      Username: email,
+    });
+
+    try {
+      await this.client.send(command);
+    } catch (error) {
+      if (error instanceof Error && error.name === 'UserNotFoundException') return;
+      throw error;
+    }
+  }
+}
+
+/**
+ * Email message sent through SES.
+ */
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * AWS SES wrapper for transactional emails, sent from `SES_FROM_EMAIL`.
+ */
+export class SES {
+  from: string | undefined = process.env.SES_FROM_EMAIL;
+
+  constructor(private client: SESv2Client) {}
+
+  /**
+   * Checks whether a sender address is configured.
+   *
+   * @returns boolean True if emails can be sent
+   */
+  isConfigured(): boolean {
+    return !!this.from;
+  }
+
+  /**
+   * Sends an email.
+   *
+   * @param message Recipient, subject, and text (plus optional HTML) body
+   * @returns Promise<void>
+   * @throws Error if no sender is configured or SES rejects the message
+   */
+  async sendEmail({ to, subject, text, html }: EmailMessage): Promise<void> {
+    if (!this.from) throw new Error('SES_FROM_EMAIL is not set');
+
+    const command = new SendEmailCommand({
+      FromEmailAddress: this.from,
+      Destination: { ToAddresses: [to] },
+      Content: {
+        Simple: {
+          Subject: { Data: subject, Charset: 'UTF-8' },
+          Body: {
+            Text: { Data: text, Charset: 'UTF-8' },
+            ...(html && { Html: { Data: html, Charset: 'UTF-8' } }),
+          },
+        },
+      },
+    });
+
+    await this.client.send(command);
+  }
 }
 
 class S3 {
@@ -332,6 +482,42 @@ class S3 {
     return key;
   }
 
+  /**
+   * Deletes every object whose key starts with a prefix (e.g. `users/{userId}/`).
+   *
+   * @param prefix Key prefix; must not be empty
+   * @returns Promise<number> Number of objects deleted
+   */
+  async deletePrefix(prefix: string): Promise<number> {
+    if (!prefix) throw new Error('Refusing to delete the whole bucket');
+
+    let deleted = 0;
+    let continuationToken: string | undefined;
+
+    do {
+      // Pages hold at most 1000 keys, the DeleteObjects limit
+      const page = await this.s3Client.send(
+        new ListObjectsV2Command({ Bucket: this.bucket, Prefix: prefix, ContinuationToken: continuationToken }),
+      );
+      const objects = (page.Contents ?? []).map(({ Key }) => ({ Key }));
+
+      if (objects.length > 0) {
+        const result = await this.s3Client.send(
+          new DeleteObjectsCommand({ Bucket: this.bucket, Delete: { Objects: objects, Quiet: true } }),
+        );
+        if (result.Errors?.length) {
+          throw new Error(`Failed to delete ${result.Errors.length} objects under ${prefix}: ${result.Errors[0].Message}`);
+        }
+
+        deleted += objects.length;
+      }
+
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return deleted;
+  }
+
   /**
    * Generates a unique S3 key for a user's file with UUID.
    *
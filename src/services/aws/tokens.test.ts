@@ -0,0 +1,109 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { exportJWK, generateKeyPair, SignJWT, type CryptoKey, type JWK } from 'jose';
+import { CognitoTokenVerifier, InvalidTokenError } from './tokens';
+
+const AUDIENCE = 'test-client-id';
+const KEY_ID = 'test-key';
+
+let server: ReturnType<typeof Bun.serve>;
+let issuer: string;
+let privateKey: CryptoKey;
+let jwks: { keys: JWK[] };
+let jwksRequests = 0;
+
+/**
+ * Signs an ID token with the served key; claims and options override the valid defaults.
+ */
+function idToken(
+  claims: Record<string, unknown> = {},
+  { iss = issuer, aud = AUDIENCE, exp = '1h', key = privateKey } = {},
+) {
+  return new SignJWT({ token_use: 'id', email: 'user@example.com', 'cognito:username': 'user', ...claims })
+    .setProtectedHeader({ alg: 'RS256', kid: KEY_ID })
+    .setSubject('user-sub')
+    .setIssuer(iss)
+    .setAudience(aud)
+    .setIssuedAt()
+    .setExpirationTime(exp)
+    .sign(key);
+}
+
+function verifier() {
+  return new CognitoTokenVerifier({ issuer, audience: AUDIENCE });
+}
+
+beforeAll(async () => {
+  const keyPair = await generateKeyPair('RS256');
+  privateKey = keyPair.privateKey;
+  jwks = { keys: [{ ...(await exportJWK(keyPair.publicKey)), kid: KEY_ID, alg: 'RS256', use: 'sig' }] };
+
+  // Serves the key set the way a user pool does, at `{issuer}/.well-known/jwks.json`
+  server = Bun.serve({
+    port: 0,
+    fetch(request) {
+      if (new URL(request.url).pathname !== '/us-east-1_Test/.well-known/jwks.json') {
+        return new Response('Not found', { status: 404 });
+      }
+
+      jwksRequests++;
+      return Response.json(jwks);
+    },
+  });
+  issuer = `http://localhost:${server.port}/us-east-1_Test`;
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+describe('CognitoTokenVerifier', () => {
+  test('accepts a valid ID token', async () => {
+    const claims = await verifier().verifyIdToken(await idToken());
+
+    expect(claims.sub).toBe('user-sub');
+    expect(claims.email).toBe('user@example.com');
+    expect(claims.token_use).toBe('id');
+  });
+
+  test('rejects a token from another issuer', async () => {
+    const token = await idToken({}, { iss: 'https://cognito-idp.us-east-1.amazonaws.com/us-east-1_Other' });
+
+    await expect(verifier().verifyIdToken(token)).rejects.toBeInstanceOf(InvalidTokenError);
+  });
+
+  test('rejects a token for another app client', async () => {
+    const token = await idToken({}, { aud: 'other-client-id' });
+
+    await expect(verifier().verifyIdToken(token)).rejects.toBeInstanceOf(InvalidTokenError);
+  });
+
+  test('rejects an expired token', async () => {
+    const token = await idToken({}, { exp: '-1m' });
+
+    await expect(verifier().verifyIdToken(token)).rejects.toBeInstanceOf(InvalidTokenError);
+  });
+
+  test('rejects an access token', async () => {
+    const token = await idToken({ token_use: 'access' });
+
+    await expect(verifier().verifyIdToken(token)).rejects.toBeInstanceOf(InvalidTokenError);
+  });
+
+  test('rejects a token signed with another key', async () => {
+    const { privateKey: otherKey } = await generateKeyPair('RS256');
+    const token = await idToken({}, { key: otherKey });
+
+    await expect(verifier().verifyIdToken(token)).rejects.toBeInstanceOf(InvalidTokenError);
+  });
+
+  test('caches the key set between verifications', async () => {
+    const tokenVerifier = verifier();
+    const before = jwksRequests;
+
+    for (let i = 0; i < 3; i++) {
+      await tokenVerifier.verifyIdToken(await idToken());
+    }
+
+    expect(jwksRequests - before).toBe(1);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Verification of Cognito-issued JWTs against the user pool's JSON Web Key Set.
+ */
+
+import { createRemoteJWKSet, jwtVerify, type JWTPayload, type JWTVerifyGetKey } from 'jose';
+import { UnauthorizedError } from '../../errors';
+
+/**
+ * Claims of a Cognito ID token used by the API.
+ */
+export interface CognitoIdTokenClaims extends JWTPayload {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  token_use: 'id';
+  'cognito:username': string;
+}
+
+/**
+ * Builds the issuer URL of a Cognito user pool.
+ *
+ * @param region AWS region of the user pool
+ * @param userPoolId User pool ID (e.g. `us-east-1_AbCdEf123`)
+ * @returns string Issuer URL, also the base of the pool's JWKS URL
+ */
+export function cognitoIssuer(region: string, userPoolId: string): string {
+  return `https://cognito-idp.${region}.amazonaws.com/${userPoolId}`;
+}
+
+/**
+ * Verifies Cognito ID tokens: signature (JWKS), issuer, audience, expiry and token use.
+ * Keys are fetched from the pool's `/.well-known/jwks.json` and cached; a local key set
+ * can be injected instead (e.g. with `createLocalJWKSet`).
+ */
+export class CognitoTokenVerifier {
+  private issuer: string;
+  private audience: string;
+  private jwks?: JWTVerifyGetKey;
+
+  /**
+   * Creates a verifier for one user pool app client.
+   *
+   * @param issuer User pool issuer URL (see {@link cognitoIssuer})
+   * @param audience App client ID
+   * @param jwks Optional key set; defaults to the pool's remote JWKS
+   */
+  constructor({ issuer, audience, jwks }: { issuer: string; audience: string; jwks?: JWTVerifyGetKey }) {
+    this.issuer = issuer;
+    this.audience = audience;
+    this.jwks = jwks;
+  }
+
+  /**
+   * Verifies an ID token and returns its claims.
+   *
+   * @param token Encoded ID token
+   * @returns Promise<CognitoIdTokenClaims> Verified token claims
+   * @throws InvalidTokenError if the token is invalid, expired, or not an ID token for this client
+   */
+  async verifyIdToken(token: string): Promise<CognitoIdTokenClaims> {
+    try {
+      const { payload } = await jwtVerify(token, this.getKeys(), {
+        issuer: this.issuer,
+        audience: this.audience,
+        algorithms: ['RS256'],
+        requiredClaims: ['sub', 'exp', 'token_use'],
+      });
+
+      if (payload.token_use !== 'id') throw new Error('Not an ID token');
+
+      return payload as CognitoIdTokenClaims;
+    } catch {
+      throw new InvalidTokenError();
+    }
+  }
+
+  private getKeys(): JWTVerifyGetKey {
+    this.jwks ??= createRemoteJWKSet(new URL(`${this.issuer}/.well-known/jwks.json`), {
+      cacheMaxAge: 60 * 60 * 1000, // 1 hour
+    });
+
+    return this.jwks;
+  }
+}
+
+/**
+ * Error thrown when a Cognito or OAuth token fails verification or exchange.
+ */
+export class InvalidTokenError extends UnauthorizedError {
+  name = 'InvalidTokenError';
+
+  /**
+   * Creates an invalid token error.
+   */
+  constructor() {
+    super('Invalid or expired token', 'invalid_token');
+  }
+}
@@ -6,6 +6,38 @@ export enum UserRole {
   USER = 'user',
 }
 
+/**
+ * Permission enumeration for fine-grained admin access, granted through roles.
+ * `*` grants every permission.
+ */
+export enum Permission {
+  ALL = '*',
+  USERS_READ = 'users.read',
+  USERS_STATUS = 'users.status',
+  USERS_ROLES = 'users.roles',
+  USERS_DELETE = 'users.delete',
+  USERS_SESSIONS = 'users.sessions',
+  PAYMENTS_READ = 'payments.read',
+  PAYMENTS_REFUND = 'payments.refund',
+  PAYMENTS_EXPORT = 'payments.export',
+  ROLES_MANAGE = 'roles.manage',
+}
+
+/**
+ * API key scope enumeration: what a personal API key may do on behalf of its user.
+ * Sessions are not limited by scopes.
+ */
+export enum ApiKeyScope {
+  PROFILE_READ = 'profile.read',
+  PROFILE_WRITE = 'profile.write',
+  PAYMENTS_READ = 'payments.read',
+  PAYMENTS_WRITE = 'payments.write',
+  SUBSCRIPTIONS_READ = 'subscriptions.read',
+  SUBSCRIPTIONS_WRITE = 'subscriptions.write',
+  /** Use the admin routes, within the permissions of the user's roles */
+  ADMIN = 'admin',
+}
+
 /**
  * User account status enumeration for user management.
  */
@@ -22,10 +54,46 @@ export enum PaymentStatus {
   PENDING = 'pending',
   COMPLETED = 'completed',
   FAILED = 'failed',
+  REFUNDED = 'refunded',
+}
+
+/**
+ * Payment gateway enumeration for the providers that process charges.
+ */
+export enum PaymentGateway {
+  ABACATE = 'abacate',
+  STRIPE = 'stripe',
+}
+
+/**
+ * Payment method enumeration, used to pick the gateway for a charge.
+ */
+export enum PaymentMethod {
+  PIX = 'pix',
+  CARD = 'card',
+}
+
+/**
+ * Payment purpose enumeration, encoded into provider metadata.
+ */
+export enum PaymentPurpose {
+  ONE_OFF = 'one_off',
+  SUBSCRIPTION = 'subscription',
+}
+
+/**
+ * Subscription lifecycle status enumeration.
+ */
+export enum SubscriptionStatus {
+  TRIALING = 'trialing',
+  ACTIVE = 'active',
+  PAST_DUE = 'past_due',
+  CANCELED = 'canceled',
 }
 
 /**
- * OAuth provider enumeration for supported authentication providers.
+ * Built-in OAuth providers. Providers are registered from config (see `providersFromEnv`),
+ * so OpenID Connect providers can use other names.
  */
 export enum Provider {
   GOOGLE = 'google',
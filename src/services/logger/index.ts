@@ -0,0 +1,6 @@
+/**
+ * Re-exports the logger.
+ * Provides the shared structured logger and its request/job context.
+ */
+
+export * from './logger';
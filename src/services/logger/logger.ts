@@ -0,0 +1,181 @@
+/**
+ * Structured logger writing one line per entry: JSON (`level`, `timestamp`, `message` and context fields) for log
+ * collectors, or a colored human-readable format for development.
+ * Entries carry the context of where they were logged from, e.g. the request ID and route of the request being
+ * handled or the name of the running cron job (see {@link withLogContext}), so lines can be correlated.
+ * Authorization headers, cookies, session IDs, tokens, passwords and secrets are redacted.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFormat = 'json' | 'pretty';
+
+/**
+ * Context fields of an entry, e.g. `{ requestId, userId }` or `{ job: 'renew-subscriptions' }`.
+ */
+export type LogFields = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+/** Fields whose values are never logged */
+const SENSITIVE_KEYS = /authorization|cookie|session_?id|token|password|secret|api_?key/i;
+
+/** Credentials inside logged strings, e.g. a `Bearer` header echoed in an error message */
+const SENSITIVE_VALUES = /\b(Bearer\s+)\S+|\bak_[\w-]+/g;
+
+const REDACTED = '[REDACTED]';
+
+/** Context of the current request or job, added to every entry logged within it */
+const logContext = new AsyncLocalStorage<LogFields>();
+
+/**
+ * Runs a function with fields added to every entry logged within it (including in the async calls it makes),
+ * on top of the current context.
+ *
+ * @param fields Context fields, e.g. `{ job: 'renew-subscriptions' }`
+ * @param fn Function to run
+ * @returns T Result of the function
+ */
+export function withLogContext<T>(fields: LogFields, fn: () => T): T {
+  return logContext.run({ ...logContext.getStore(), ...fields }, fn);
+}
+
+/**
+ * Adds fields to the current context for the rest of the current async execution, e.g. the request ID when a
+ * request comes in. Prefer {@link withLogContext} where the work can be wrapped in a function.
+ *
+ * @param fields Context fields
+ */
+export function enterLogContext(fields: LogFields): void {
+  logContext.enterWith({ ...logContext.getStore(), ...fields });
+}
+
+/**
+ * Gets the fields of the current context.
+ *
+ * @returns LogFields Fields, empty outside of a request or job
+ */
+export function currentLogContext(): LogFields {
+  return logContext.getStore() ?? {};
+}
+
+/**
+ * Logger with fixed context fields; {@link Logger.child} derives loggers with more.
+ */
+export class Logger {
+  /**
+   * Initializes the logger.
+   *
+   * @param options Minimum level and output format
+   * @param context Fields added to every entry of this logger
+   */
+  constructor(
+    private options: { level: LogLevel; format: LogFormat },
+    private context: LogFields = {},
+  ) {}
+
+  /**
+   * Creates a logger that adds fields to every entry, e.g. `logger.child({ module: 'sessions' })`.
+   *
+   * @param context Fields to add
+   * @returns Logger Child logger, with the same level and format
+   */
+  child(context: LogFields): Logger {
+    return new Logger(this.options, { ...this.context, ...context });
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields?: LogFields): void {
+    if (LEVELS[level] < LEVELS[this.options.level]) return;
+
+    const entry = redact({
+      level,
+      timestamp: new Date().toISOString(),
+      message,
+      ...logContext.getStore(),
+      ...this.context,
+      ...fields,
+    }) as LogFields;
+
+    const line = this.options.format === 'pretty' ? pretty(entry) : JSON.stringify(entry);
+    (LEVELS[level] >= LEVELS.warn ? process.stderr : process.stdout).write(`${line}\n`);
+  }
+}
+
+/**
+ * Creates the logger from `LOG_LEVEL` (`debug`, `info`, `warn` or `error`; default `info`) and `LOG_FORMAT`
+ * (`json` or `pretty`; default `pretty` in development, `json` otherwise).
+ *
+ * @returns Logger Root logger
+ * @throws Error if a variable is not valid
+ */
+export function loggerFromEnv(): Logger {
+  const level = (process.env.LOG_LEVEL || 'info') as LogLevel;
+  if (!(level in LEVELS)) throw new Error(`LOG_LEVEL must be one of ${Object.keys(LEVELS).join(', ')} (got "${level}")`);
+
+  const format = (process.env.LOG_FORMAT || (process.env.ENV === 'development' ? 'pretty' : 'json')) as LogFormat;
+  if (format !== 'json' && format !== 'pretty') throw new Error(`LOG_FORMAT must be json or pretty (got "${format}")`);
+
+  return new Logger({ level, format });
+}
+
+/**
+ * Root logger shared by the whole application (also available as `services.logger`).
+ */
+export const logger = loggerFromEnv();
+
+/**
+ * Copies a value for logging: sensitive fields and credentials in strings are redacted, and errors are turned
+ * into plain objects (name, message, stack).
+ */
+function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') return value.replace(SENSITIVE_VALUES, (_, bearer) => (bearer ? `${bearer}${REDACTED}` : REDACTED));
+  if (value instanceof Error) {
+    return redact({ name: value.name, message: value.message, stack: value.stack, ...(value.cause ? { cause: value.cause } : {}) }, depth);
+  }
+  if (typeof value !== 'object' || value === null || value instanceof Date) return value;
+  if (depth >= 5) return '[Object]';
+  if (Array.isArray(value)) return value.map((item) => redact(item, depth + 1));
+
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([, field]) => field !== undefined)
+      .map(([key, field]) => [key, SENSITIVE_KEYS.test(key) ? REDACTED : redact(field, depth + 1)]),
+  );
+}
+
+const COLORS: Record<LogLevel, string> = { debug: '\x1b[90m', info: '\x1b[36m', warn: '\x1b[33m', error: '\x1b[31m' };
+
+/**
+ * Formats an entry for humans: `12:00:00.000 INFO  message key=value ...`, then the stack of an error.
+ */
+function pretty({ level, timestamp, message, ...fields }: LogFields): string {
+  // The stack goes on its own lines
+  const stack = (fields.error as LogFields | undefined)?.stack;
+  if (stack) fields.error = { ...(fields.error as LogFields), stack: undefined };
+
+  const context = Object.entries(fields)
+    .map(([key, value]) => `\x1b[90m${key}=\x1b[0m${typeof value === 'string' ? value : JSON.stringify(value)}`)
+    .join(' ');
+  const time = String(timestamp).slice(11, 23);
+  const line = `\x1b[90m${time}\x1b[0m ${COLORS[level as LogLevel]}${String(level).toUpperCase().padEnd(5)}\x1b[0m ${message} ${context}`;
+
+  return stack ? `${line.trimEnd()}\n${stack}` : line.trimEnd();
+}
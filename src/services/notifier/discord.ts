@@ -4,6 +4,7 @@
  */
 
 import { Client, GatewayIntentBits, TextChannel, EmbedBuilder } from 'discord.js';
+import { logger } from '../logger';
 import type { NotificationMessage } from './messages';
 
 /**
@@ -31,7 +32,7 @@ export class DiscordNotifier {
    */
   constructor(config: DiscordConfig) {
     if (!config.botToken || !config.channelId) {
-      console.warn('Discord notifier not configured - missing bot token or channel ID');
+      logger.warn('Discord notifier not configured - missing bot token or channel ID');
       return;
     }
 
@@ -42,17 +43,17 @@ export class DiscordNotifier {
     });
 
     this.client.once('ready', () => {
-      console.log('Discord notifier ready');
+      logger.info('Discord notifier ready');
       this.isReady = true;
     });
 
     this.client.on('error', (error) => {
-      console.error('Discord client error:', error);
+      logger.error('Discord client error', { error });
     });
 
     // Login to Discord
     this.client.login(config.botToken).catch((error) => {
-      console.error('Failed to login to Discord:', error);
+      logger.error('Failed to login to Discord', { error });
     });
   }
 
@@ -64,7 +65,7 @@ export class DiscordNotifier {
    */
   async sendMessage(message: NotificationMessage): Promise<void> {
     if (!this.client || !this.channelId || !this.isReady) {
-      console.warn('Discord notifier not ready or configured');
+      logger.warn('Discord notifier not ready or configured');
       return;
     }
 
@@ -72,7 +73,7 @@ export class DiscordNotifier {
       const channel = await this.client.channels.fetch(this.channelId) as TextChannel;
       
       if (!channel) {
-        console.error('Discord channel not found');
+        logger.error('Discord channel not found');
         return;
       }
 
@@ -84,7 +85,7 @@ export class DiscordNotifier {
 
       await channel.send({ embeds: [embed] });
     } catch (error) {
-      console.error('Error sending Discord message:', error);
+      logger.error('Error sending Discord message', { error });
     }
   }
 
@@ -96,7 +97,7 @@ export class DiscordNotifier {
    */
   async sendSimpleMessage(content: string): Promise<void> {
     if (!this.client || !this.channelId || !this.isReady) {
-      console.warn('Discord notifier not ready or configured');
+      logger.warn('Discord notifier not ready or configured');
       return;
     }
 
@@ -104,13 +105,13 @@ export class DiscordNotifier {
       const channel = await this.client.channels.fetch(this.channelId) as TextChannel;
       
       if (!channel) {
-        console.error('Discord channel not found');
+        logger.error('Discord channel not found');
         return;
       }
 
       await channel.send(content);
     } catch (error) {
-      console.error('Error sending Discord message:', error);
+      logger.error('Error sending Discord message', { error });
     }
   }
 
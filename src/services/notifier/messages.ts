@@ -53,6 +53,29 @@ export const createPaymentFailureMessage = (
   color: 0xff0000, // Red
 });
 
+/**
+ * Creates a payment refund notification message.
+ *
+ * @param userId User ID who received the refund
+ * @param amount Refunded amount in cents
+ * @param transactionId Provider charge ID
+ * @param refundId Provider refund ID
+ * @param reason Optional refund reason
+ * @returns NotificationMessage Formatted refund message
+ */
+export const createPaymentRefundMessage = (
+  {userId, amount, transactionId, refundId, reason}: {userId: string,
+  amount: number,
+  transactionId: string,
+  refundId: string,
+  reason?: string}
+): NotificationMessage => ({
+  title: '↩️ Payment Refunded',
+  content: `User ID ${userId} was refunded $${(amount / 100).toFixed(2)} (Transaction: ${transactionId}, Refund: ${refundId})${reason ? ` - Reason: ${reason}` : ''}`,
+  timestamp: new Date(),
+  color: 0xffcc00, // Yellow
+});
+
 /**
  * Creates a user registration notification message.
  * 
@@ -72,22 +95,177 @@ export const createUserRegistrationMessage = (
   color: 0x0099ff, // Blue
 });
 
+/**
+ * Creates a user role change notification message.
+ *
+ * @param userId User ID whose role changed
+ * @param email User email
+ * @param role New role
+ * @param adminId Admin who made the change
+ * @param reason Optional reason
+ * @returns NotificationMessage Formatted role change message
+ */
+export const createUserRoleChangedMessage = (
+  {userId, email, role, adminId, reason}: {userId: string,
+  email: string,
+  role: string,
+  adminId: string,
+  reason?: string}
+): NotificationMessage => ({
+  title: '🛡️ User Role Changed',
+  content: `User ${email} (ID: ${userId}) is now ${role} (by admin ${adminId})${reason ? ` - Reason: ${reason}` : ''}`,
+  timestamp: new Date(),
+  color: 0x9b59b6, // Purple
+});
+
+/**
+ * Creates a user status change notification message.
+ *
+ * @param userId User ID whose status changed
+ * @param email User email
+ * @param status New status
+ * @param adminId Admin who made the change
+ * @param reason Reason for the change
+ * @returns NotificationMessage Formatted status change message
+ */
+export const createUserStatusChangedMessage = (
+  {userId, email, status, adminId, reason}: {userId: string,
+  email: string,
+  status: string,
+  adminId: string,
+  reason: string}
+): NotificationMessage => ({
+  title: status === 'banned' ? '⛔ User Banned' : '👤 User Status Changed',
+  content: `User ${email} (ID: ${userId}) is now ${status} (by admin ${adminId}) - Reason: ${reason}`,
+  timestamp: new Date(),
+  color: status === 'banned' ? 0xff0000 : 0xffcc00, // Red or yellow
+});
+
+/**
+ * Creates a user deletion notification message.
+ *
+ * @param userId Deleted user ID
+ * @param email User email
+ * @param adminId Admin who deleted the user; absent when users delete their own account
+ * @param reason Optional reason
+ * @returns NotificationMessage Formatted deletion message
+ */
+export const createUserDeletedMessage = (
+  {userId, email, adminId, reason}: {userId: string,
+  email: string,
+  adminId?: string,
+  reason?: string}
+): NotificationMessage => ({
+  title: '🗑️ User Deleted',
+  content: `User ${email} (ID: ${userId}) was deleted (${adminId ? `by admin ${adminId}` : 'by the user'})${reason ? ` - Reason: ${reason}` : ''}`,
+  timestamp: new Date(),
+  color: 0x808080, // Gray
+});
+
+/**
+ * Creates a subscription activation notification message.
+ *
+ * @param userId User ID who subscribed or renewed
+ * @param plan Plan name
+ * @returns NotificationMessage Formatted activation message
+ */
+export const createSubscriptionActivatedMessage = (
+  {userId, plan}: {userId: string,
+  plan: string}
+): NotificationMessage => ({
+  title: '⭐ Subscription Active',
+  content: `User ID ${userId} is now subscribed to ${plan}`,
+  timestamp: new Date(),
+  color: 0x00ff00, // Green
+});
+
+/**
+ * Creates a subscription cancellation notification message.
+ *
+ * @param userId User ID whose subscription ended
+ * @param plan Plan name
+ * @param reason Why the subscription was canceled
+ * @returns NotificationMessage Formatted cancellation message
+ */
+export const createSubscriptionCanceledMessage = (
+  {userId, plan, reason}: {userId: string,
+  plan: string,
+  reason: string}
+): NotificationMessage => ({
+  title: '📉 Subscription Canceled',
+  content: `User ID ${userId} subscription to ${plan} was canceled - Reason: ${reason}`,
+  timestamp: new Date(),
+  color: 0xff6600, // Orange
+});
+
+/**
+ * Creates a notification message for a subscription payment that could not be applied
+ * nor refunded automatically, so an admin has to refund it by hand.
+ *
+ * @param userId User ID who paid
+ * @param plan Plan name
+ * @param amount Payment amount in cents
+ * @param transactionId Provider charge ID
+ * @returns NotificationMessage Formatted refund request message
+ */
+export const createSubscriptionRefundRequiredMessage = (
+  {userId, plan, amount, transactionId}: {userId: string,
+  plan: string,
+  amount: number,
+  transactionId: string}
+): NotificationMessage => ({
+  title: '⚠️ Manual Refund Required',
+  content: `User ID ${userId} paid $${(amount / 100).toFixed(2)} for a canceled ${plan} subscription (Transaction: ${transactionId}) - Please refund it`,
+  timestamp: new Date(),
+  color: 0xffcc00, // Yellow
+});
+
 /**
  * Creates a system error notification message.
  * 
  * @param error Error description
- * @param context Optional additional context information
+ * @param route Method and path of the failed request, if any
+ * @param requestId ID of the failed request, if any
+ * @param suppressed Repeats of the error not reported since its last report
  * @returns NotificationMessage Formatted error message
  */
 export const createErrorMessage = (
-  {error}: {error: string,}
+  {error, route, requestId, suppressed}: {error: string,
+  route?: string,
+  requestId?: string,
+  suppressed?: number}
 ): NotificationMessage => ({
   title: '🚨 System Error',
-  content: `Error occurred: ${error}`,
+  content: [
+    `Error occurred: ${error}`,
+    route && `Route: ${route}`,
+    requestId && `Request ID: ${requestId}`,
+    suppressed && `${suppressed} repeats suppressed since the last report`,
+  ].filter(Boolean).join('\n'),
   timestamp: new Date(),
   color: 0xff6600, // Orange
 });
 
+/**
+ * Creates a lockout spike notification message, sent when many keys get locked out in a short time
+ * (e.g. a credential stuffing attack on the login).
+ *
+ * @param scope What was locked out, e.g. `login`
+ * @param lockouts Number of lockouts
+ * @param minutes Window the lockouts happened in
+ * @returns NotificationMessage Formatted alert message
+ */
+export const createLockoutSpikeMessage = (
+  {scope, lockouts, minutes}: {scope: string,
+  lockouts: number,
+  minutes: number}
+): NotificationMessage => ({
+  title: '🛡️ Lockout Spike',
+  content: `${lockouts} ${scope} lockouts in the last ${minutes} minutes - possible brute-force attack`,
+  timestamp: new Date(),
+  color: 0xff0000, // Red
+});
+
 /**
  * Centralized notification message factory with organized categories.
  * Provides easy access to all notification message creators.
@@ -96,20 +274,35 @@ const messages = {
   payments: {
     success: createPaymentSuccessMessage,
     failure: createPaymentFailureMessage,
+    refund: createPaymentRefundMessage,
+  },
+  subscriptions: {
+    activated: createSubscriptionActivatedMessage,
+    canceled: createSubscriptionCanceledMessage,
+    refundRequired: createSubscriptionRefundRequiredMessage,
   },
   users: {
     registration: createUserRegistrationMessage,
+    roleChanged: createUserRoleChangedMessage,
+    statusChanged: createUserStatusChangedMessage,
+    deleted: createUserDeletedMessage,
   },
   system: {
     error: createErrorMessage,
+    lockoutSpike: createLockoutSpikeMessage,
   }
 } as const;
 
-// 3. Getter function returning tuple [path, value]
+/**
+ * Looks up a message creator by its dotted path (e.g. `payments.success`).
+ *
+ * @param path Message path in `category.type` format
+ * @returns Message creator function for the path
+ */
 export function getMessage<P extends MessagePaths>(path: P): MessageValue<P> {
   const [category, type] = path.split(".") as [keyof typeof messages, keyof typeof messages[keyof typeof messages]];
-  const value = messages[category][type];
-  return value[1];
+  const value = messages[category]?.[type];
+  return value as MessageValue<P>;
 }
 
 export type MessagePaths = {
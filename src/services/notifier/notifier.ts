@@ -3,12 +3,13 @@
  * Designed to be extensible for adding new notification channels.
  */
 
+import { logger } from '../logger';
 import { DiscordNotifier } from './discord';
 import { getMessage, MessagePaths, MessageValue } from './messages';
 
 /**
  * Main notification orchestrator that manages multiple notification channels.
- * Currently supports Discord with fallback to console logging.
+ * Currently supports Discord with fallback to the logger.
  */
 export class Notifier {
   /**
@@ -20,7 +21,8 @@ export class Notifier {
 
   /**
    * Sends a structured notification message to all configured channels.
-   * Falls back to console logging if no channels are configured.
+   * Every notification is logged, with the context of the caller (e.g. the cron job sending it); its content too
+   * if no channels are configured.
    * 
    * @param path Structured notification with title, content, and optional metadata
    * @returns Promise<void>
@@ -28,7 +30,7 @@ export class Notifier {
   async notify<T extends MessagePaths>(path: T, data: Parameters<MessageValue<T>>[0]): Promise<void> {
     const notificationMessage = getMessage(path);
     if (!notificationMessage) {
-      console.warn('Notification message not found for path:', path);
+      logger.warn('Notification message not found', { path });
       return;
     }
 
@@ -41,10 +43,8 @@ export class Notifier {
 
     // Send to other services (email, SMS, etc.) here in the future
     
-    // Log to console as fallback
-    if (promises.length === 0) {
-      console.log('[NOTIFICATION]', message.title, '-', message.content);
-    }
+    // Log the content as fallback
+    logger.info('Notification', { path, title: message.title, content: promises.length === 0 ? message.content : undefined });
 
     // Wait for all notifications to complete
     await Promise.allSettled(promises);
@@ -62,7 +62,7 @@ export class Notifier {
     if (this.discord) promises.push(this.discord.sendSimpleMessage(content));
 
     if (promises.length === 0) {
-      console.log('[NOTIFICATION]', content);
+      logger.info('Notification', { content });
     }
 
     await Promise.allSettled(promises);
@@ -0,0 +1,106 @@
+/**
+ * Reports server errors (5xx) to the notifier without flooding it: each distinct error (same name, message and route)
+ * is reported at most once per window, with the number of repeats suppressed since, and at most a few errors are
+ * reported per window overall. State is kept in Redis, so it holds across replicas and restarts (e.g. a crash loop);
+ * when Redis itself fails, an in-memory fallback applies the same limits per process.
+ */
+
+import type { RedisClient } from 'bun';
+import { createHash } from 'node:crypto';
+import { logger } from '../logger';
+import type { Notifier } from './notifier';
+
+const REPORT_WINDOW = 10 * 60 * 1000; // 10 minutes
+const MAX_REPORTS = 10; // distinct errors per REPORT_WINDOW
+
+/**
+ * Error to report and where it happened.
+ */
+export interface ErrorReport {
+  error: Error;
+  /** Method and path, e.g. `POST /auth/login` */
+  route?: string;
+  requestId?: string;
+}
+
+/**
+ * Deduplicating, throttled error reporter.
+ */
+export class ErrorReporter {
+  /** Expiry of the errors reported by this process, by fingerprint; only used when Redis fails */
+  private local = new Map<string, number>();
+
+  /**
+   * Initializes the error reporter.
+   *
+   * @param redis Shared Redis client
+   * @param notifier Notifier the reports are sent through (`system.error`)
+   * @param window Milliseconds an error is reported at most once in
+   * @param maxReports Distinct errors reported per window overall
+   */
+  constructor(
+    private redis: RedisClient,
+    private notifier: Notifier,
+    private window: number = REPORT_WINDOW,
+    private maxReports: number = MAX_REPORTS,
+  ) {}
+
+  /**
+   * Reports an error unless it (or too many others) was reported recently. Never throws.
+   *
+   * @param report Error, route and request ID
+   * @returns Promise<void>
+   */
+  async report({ error, route, requestId }: ErrorReport): Promise<void> {
+    const fingerprint = createHash('sha256').update(`${error.name}:${error.message}:${route ?? ''}`).digest('hex').slice(0, 32);
+
+    let suppressed: number | null;
+    try {
+      suppressed = await this.claim(fingerprint);
+    } catch (redisError) {
+      logger.error('Error throttling error reports', { error: redisError });
+      suppressed = this.claimLocally(fingerprint);
+    }
+    if (suppressed === null) return;
+
+    await this.notifier
+      .notify('system.error', { error: `${error.name}: ${error.message}`, route, requestId, suppressed })
+      .catch((notifyError) => logger.error('Error reporting error', { error: notifyError }));
+  }
+
+  /**
+   * Claims the report of an error for this window.
+   *
+   * @returns Promise<number | null> Repeats suppressed since its last report, or null if it must not be reported now
+   */
+  private async claim(fingerprint: string): Promise<number | null> {
+    const suppressedKey = `errors:suppressed:${fingerprint}`;
+
+    const claimed = await this.redis.send('SET', [`errors:reported:${fingerprint}`, '1', 'NX', 'PX', String(this.window)]);
+    if (claimed) {
+      const reports = await this.redis.incr('errors:reports');
+      if (reports === 1) await this.redis.send('PEXPIRE', ['errors:reports', String(this.window)]);
+
+      if (reports <= this.maxReports) return Number(await this.redis.send('GETDEL', [suppressedKey]) ?? 0);
+    }
+
+    // Counted until the error is reported again, so kept for a few windows
+    await this.redis.incr(suppressedKey);
+    await this.redis.send('PEXPIRE', [suppressedKey, String(this.window * 6)]);
+
+    return null;
+  }
+
+  /**
+   * In-memory version of {@link claim}, without the count of suppressed repeats.
+   */
+  private claimLocally(fingerprint: string): number | null {
+    const now = Date.now();
+    for (const [key, expiresAt] of this.local) if (expiresAt <= now) this.local.delete(key);
+
+    if (this.local.has(fingerprint) || this.local.size >= this.maxReports) return null;
+    this.local.set(fingerprint, now + this.window);
+
+    return 0;
+  }
+}
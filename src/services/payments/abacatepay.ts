@@ -1,10 +1,73 @@
 import AbacatePay from 'abacatepay-nodejs-sdk';
-import { IPixQrCode } from 'abacatepay-nodejs-sdk/dist/types';
-import { RedisClient } from 'bun';
+import type { IPixQrCode } from 'abacatepay-nodejs-sdk/dist/types';
+import type { RedisClient } from 'bun';
+import { createHmac, randomUUID, timingSafeEqual } from 'node:crypto';
+import { positiveIntFromEnv } from '../../config';
+import { PaymentGateway, PaymentStatus } from '../enums';
+import { logger } from '../logger';
+import {
+  type Charge,
+  type ChargeStatus,
+  type CreateChargeParams,
+  type PaymentProvider,
+  type RefundResult,
+  type WebhookEvent,
+  type WebhookRequest,
+  UnsupportedOperationError,
+  WebhookVerificationError,
+} from './provider';
 
-export class Abacate {
+/**
+ * The SDK ships a CommonJS build whose factory ends up under `default` when it is
+ * loaded through the ESM interop.
+ */
+type AbacatePayFactory = typeof AbacatePay;
+const createClient: AbacatePayFactory =
+  (AbacatePay as AbacatePayFactory & { default?: AbacatePayFactory }).default ?? AbacatePay;
+
+/** Pix charges expire this long after they are created. */
+const CHARGE_TTL = 5 * 24 * 60 * 60 * 1000; // 5 days
+
+/** Sorted set of pending charge IDs, scored by expiry (ms). */
+const PENDING_KEY = 'abacate:payments:pending';
+
+/** Prefix of the per-charge keys that tracked pending charges before the sorted set. */
+const LEGACY_KEY_PREFIX = 'abacate:payments:';
+
+/** Set once charges from before the sorted set have been tracked in it. */
+const BACKFILL_KEY = 'abacate:payments:backfilled';
+
+/** Lock held while polling, so overlapping cron runs and replicas skip. */
+const POLL_LOCK_KEY = 'abacate:payments:poll-lock';
+const POLL_LOCK_TTL = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * Charges that expired less than this long ago are still checked remotely once,
+ * in case they were paid right before expiring.
+ */
+const EXPIRY_GRACE = 10 * 60 * 1000; // 10 minutes
+
+/** Deletes the lock only if it is still held by the given token. */
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * AbacatePay integration for Brazilian Pix QR code payments.
+ */
+export class Abacate implements PaymentProvider {
+  readonly name = PaymentGateway.ABACATE;
   client: ReturnType<typeof AbacatePay>;
+  private pollConcurrency: number;
+  private pollTimeout: number;
 
+  /**
+   * @throws Error if the API key is missing, or if `ABACATE_POLL_CONCURRENCY` or
+   * `ABACATE_POLL_TIMEOUT_MS` is set but is not a positive integer
+   */
   constructor(
     apiKey: string,
     private redis: RedisClient,
@@ -13,41 +76,91 @@ export class Abacate {
       throw new Error('Abacate API key is required');
     }
 
-    this.client = (AbacatePay as any).default(apiKey);
+    this.client = createClient(apiKey);
+    this.pollConcurrency = positiveIntFromEnv('ABACATE_POLL_CONCURRENCY', 10);
+    this.pollTimeout = positiveIntFromEnv('ABACATE_POLL_TIMEOUT_MS', 10_000);
   }
 
   /**
    * Creates a new Pix QR code payment in Abacate.
-   * It sets an expiration of 5 days and stores the payment info in Redis.
+   * It sets an expiration of 5 days and tracks the charge in Redis until it settles.
    *
    * @param amount Amount in cents for the payment
    * @returns Promise<{copyPaste: string, qr: string, id: string, status: string}> QR code details
    */
-  async createQR({ amount }: CreateQrParams) {
-    const expiresIn = 60 * 60 * 24 * 5; // 5 days
+  async createQR({ amount, description = 'Payment' }: CreateQrParams) {
+    const expiresIn = CHARGE_TTL / 1000;
 
     const { data, error } = (await this.client.pixQrCode.create({
       amount,
-      description: 'Payment',
+      description,
       expiresIn,
     })) as { error: string; data: IPixQrCode };
 
     if (error) throw new Error(error);
 
-    this.store({
-      id: data.id,
-      data: { id: data.id, code: data.brCode },
-      expiresIn,
-    });
+    await this.track({ id: data.id, expiresAt: new Date(data.expiresAt) });
 
     return {
       code: data.brCode,
       qr: data.brCodeBase64,
       id: data.id,
       status: data.status,
+      expiresAt: data.expiresAt,
+    };
+  }
+
+  /**
+   * Creates a Pix charge. Pix only settles in BRL.
+   *
+   * @param amount Amount in cents
+   * @param currency Must be `brl`
+   * @param description Optional charge description
+   * @returns Promise<Charge> Charge with Pix code and QR image
+   */
+  async createCharge({ amount, currency, description }: CreateChargeParams): Promise<Charge> {
+    if (currency !== 'brl') throw new UnsupportedOperationError('Pix charges must be in BRL.');
+
+    const qr = await this.createQR({ amount, description });
+
+    return {
+      providerId: qr.id,
+      status: PaymentStatus.PENDING,
+      code: qr.code,
+      qr: qr.qr,
+      expiresAt: new Date(qr.expiresAt),
     };
   }
 
+  /**
+   * Fetches the normalized status of a Pix charge.
+   *
+   * @param providerId AbacatePay charge ID
+   * @returns Promise<ChargeStatus> Normalized charge status
+   */
+  async checkStatus(providerId: string): Promise<ChargeStatus> {
+    const { status, expiresAt } = await this.checkQRStatus({ id: providerId });
+
+    if (status === 'PAID') return { status: PaymentStatus.COMPLETED };
+    if (['EXPIRED', 'CANCELLED', 'REFUNDED'].includes(status)) {
+      return { status: PaymentStatus.FAILED, reason: status };
+    }
+    if (Date.now() > new Date(expiresAt).getTime()) {
+      return { status: PaymentStatus.FAILED, reason: 'EXPIRED' };
+    }
+
+    return { status: PaymentStatus.PENDING };
+  }
+
+  /**
+   * AbacatePay does not expose Pix refunds through its API.
+   *
+   * @throws UnsupportedOperationError always
+   */
+  async refund(): Promise<RefundResult> {
+    throw new UnsupportedOperationError('AbacatePay does not support refunds through the API.');
+  }
+
   private async checkQRStatus({ id }: CheckQrStatusParams) {
     const { data, error } = (await this.client.pixQrCode.check({ id })) as {
       error: string;
@@ -61,62 +174,176 @@ export class Abacate {
     };
   }
 
-  private async store({ id, data, expiresIn }: { id: string; data: Payment; expiresIn: number }) {
-    await this.redis.set(`abacate:payments:${id}`, JSON.stringify(data), 'EX', expiresIn);
+  /**
+   * Verifies an AbacatePay webhook delivery.
+   * Checks both the shared secret sent as the `webhookSecret` query parameter and the
+   * HMAC-SHA256 signature of the raw body sent in the `X-Webhook-Signature` header.
+   *
+   * @param rawBody Raw request body, exactly as received
+   * @param secret Value of the `webhookSecret` query parameter
+   * @param signature Value of the `X-Webhook-Signature` header (base64)
+   * @returns boolean True if the delivery is authentic
+   */
+  private verifyWebhook({ rawBody, secret, signature }: VerifyWebhookParams): boolean {
+    const expectedSecret = process.env.ABACATE_WEBHOOK_SECRET;
+    const signingKey = process.env.ABACATE_WEBHOOK_SIGNING_KEY;
+    if (!expectedSecret || !signingKey || !secret || !signature) return false;
+
+    const expectedSignature = createHmac('sha256', signingKey).update(rawBody).digest('base64');
+
+    return safeEqual(secret, expectedSecret) && safeEqual(signature, expectedSignature);
+  }
+
+  /**
+   * Verifies an AbacatePay webhook delivery and parses it into the charge it refers to
+   * and the payment status it implies.
+   *
+   * @param rawBody Raw request body
+   * @param headers Request headers (`x-webhook-signature`)
+   * @param query Request query (`webhookSecret`)
+   * @returns Promise<WebhookEvent> Event ID, type, charge ID and resulting status (if final)
+   * @throws WebhookVerificationError if the delivery is not authentic or not a valid payload
+   */
+  async parseWebhook({ rawBody, headers, query }: WebhookRequest): Promise<WebhookEvent> {
+    const verified = this.verifyWebhook({
+      rawBody,
+      secret: query.webhookSecret,
+      signature: headers['x-webhook-signature'],
+    });
+    if (!verified) throw new WebhookVerificationError();
+
+    let payload: AbacateWebhookPayload;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      throw new WebhookVerificationError('Invalid webhook payload.');
+    }
+    if (!payload?.id || !payload.event) throw new WebhookVerificationError('Invalid webhook payload.');
+
+    const charge = payload.data?.pixQrCode ?? payload.data?.billing;
+
+    let status: PaymentStatus.COMPLETED | PaymentStatus.FAILED | undefined;
+    if (charge?.status === 'PAID') status = PaymentStatus.COMPLETED;
+    if (charge?.status && ['EXPIRED', 'CANCELLED', 'REFUNDED'].includes(charge.status)) {
+      status = PaymentStatus.FAILED;
+    }
+
+    return {
+      id: payload.id,
+      type: payload.event,
+      providerId: charge?.id,
+      status,
+      reason: status === PaymentStatus.FAILED ? charge?.status : undefined,
+    };
+  }
+
+  /**
+   * Stops tracking a charge, so the polling fallback no longer checks it.
+   *
+   * @param providerId AbacatePay charge ID
+   * @returns Promise<void>
+   */
+  async untrack(providerId: string): Promise<void> {
+    await this.redis.zrem(PENDING_KEY, providerId);
+  }
+
+  private async track({ id, expiresAt }: { id: string; expiresAt: Date }) {
+    await this.redis.zadd(PENDING_KEY, expiresAt.getTime(), id);
   }
 
   /**
-   * Polls Abacate for payment status updates and returns completed payments.
+   * Tracks the charges that were pending before the sorted set existed: the legacy
+   * `abacate:payments:{id}` keys and the given pending payments. Runs once; later calls
+   * return 0 without loading anything. Charges that are already tracked keep their score,
+   * and charges past their expiry are scored as due now so they are still checked remotely once.
+   *
+   * @param loadPending Loads the pending AbacatePay payments from the database
+   * @returns Promise<number> Number of charges added to the pending set
+   */
+  async backfill(loadPending: () => Promise<{ providerId: string; createdAt: Date }[]>): Promise<number> {
+    if (await this.redis.exists(BACKFILL_KEY)) return 0;
+
+    const now = Date.now();
+    const charges = new Map<string, number>();
+    for (const { providerId, createdAt } of await loadPending()) {
+      charges.set(providerId, Math.max(createdAt.getTime() + CHARGE_TTL, now));
+    }
+
+    const legacyKeys: string[] = [];
+    let cursor = '0';
+    do {
+      const [next, keys] = await this.redis.scan(cursor, 'MATCH', `${LEGACY_KEY_PREFIX}*`, 'COUNT', 100);
+      cursor = next;
+      legacyKeys.push(...keys.filter((key) => ![PENDING_KEY, POLL_LOCK_KEY, BACKFILL_KEY].includes(key)));
+    } while (cursor !== '0');
+
+    for (const key of legacyKeys) {
+      const ttl = await this.redis.pttl(key);
+      charges.set(key.slice(LEGACY_KEY_PREFIX.length), now + Math.max(ttl, 0));
+    }
+
+    let added = 0;
+    for (const [id, expiresAt] of charges) {
+      added += await this.redis.zadd(PENDING_KEY, 'NX', expiresAt, id);
+    }
+
+    if (legacyKeys.length > 0) await this.redis.del(...legacyKeys);
+    await this.redis.set(BACKFILL_KEY, new Date(now).toISOString());
+
+    return added;
+  }
+
+  /**
+   * Polls Abacate for payment status updates and returns completed and failed payments.
    * Should be run periodically to update payment statuses in the system.
    *
-   * @returns Promise<{successes: string[], failures: string[]}> List of QR IDs that have been completed
+   * Charges long past their expiry are reported as failed without calling Abacate; the others
+   * are checked with at most `ABACATE_POLL_CONCURRENCY` requests in flight, each bounded by
+   * `ABACATE_POLL_TIMEOUT_MS`. Reported charges stay tracked until they are settled (see
+   * {@link untrack}), so a charge that fails to settle is reported again by the next poll.
+   * Only one poll runs at a time across all replicas; the others return `skipped: true`.
+   *
+   * @returns Promise<{successes: Payment[], failures: FailedPayment[], skipped: boolean}> Payments that have been completed or failed
    */
   async poll() {
+
     const successes: Payment[] = [];
-    const failures: Payment[] = [];
-    const pending: Payment[] = [];
+    const failures: FailedPayment[] = [];
 
-    const keys = await this.redis.keys('abacate:payments:*');
+    const token = randomUUID();
+    const locked = await this.redis.set(POLL_LOCK_KEY, token, 'NX', 'PX', String(POLL_LOCK_TTL));
+    if (!locked) return { successes, failures, skipped: true };
 
-    for (const key of keys) {
-      try {
-        const data = await this.redis.get(key);
-        if (!data) continue;
+    try {
+      const expiredBefore = Date.now() - EXPIRY_GRACE;
 
-        const payment = JSON.parse(data) as Payment;
-        const { status, expiresAt } = await this.checkQRStatus({ id: payment.id });
+      const expired = await this.redis.zrangebyscore(PENDING_KEY, '-inf', expiredBefore);
+      failures.push(...expired.map((id) => ({ id, reason: 'EXPIRED' })));
 
-        if (['EXPIRED', 'CANCELLED', 'REFUNDED'].includes(status)) {
-          failures.push(payment);
-          await this.redis.del(key);
-          continue;
-        }
+      const ids = await this.redis.zrangebyscore(PENDING_KEY, `(${expiredBefore}`, '+inf');
 
-        if (Date.now() > new Date(expiresAt).getTime()) {
-          // Payment expired
-          failures.push(payment);
-          await this.redis.del(key);
-          continue;
-        }
+      await mapWithConcurrency(ids, this.pollConcurrency, async (id) => {
+        try {
+          const { status, reason } = await withTimeout(this.checkStatus(id), this.pollTimeout);
+          if (status === PaymentStatus.PENDING) return;
 
-        if (status !== 'PAID') {
-          pending.push(payment);
-          continue;
+          if (status === PaymentStatus.COMPLETED) successes.push({ id });
+          else failures.push({ id, reason: reason ?? status });
+        } catch (error) {
+          logger.error('Error polling Abacate payment', { chargeId: id, error });
         }
-
-        successes.push(payment);
-        await this.redis.del(key);
-      } catch (error) {
-        console.error('Error polling Abacate payment:', error);
-      }
+      });
+    } finally {
+      await this.redis.eval(RELEASE_LOCK_SCRIPT, 1, POLL_LOCK_KEY, token);
     }
 
-    return { successes, failures };
+    return { successes, failures, skipped: false };
   }
 }
 
 interface CreateQrParams {
   amount: number;
+  description?: string;
 }
 
 interface CheckQrStatusParams {
@@ -125,5 +352,59 @@ interface CheckQrStatusParams {
 
 interface Payment {
   id: string;
-  code: string;
+}
+
+interface FailedPayment extends Payment {
+  reason: string;
+}
+
+interface VerifyWebhookParams {
+  rawBody: string;
+  secret?: string;
+  signature?: string;
+}
+
+interface AbacateWebhookPayload {
+  id: string;
+  event: string;
+  devMode?: boolean;
+  data?: {
+    pixQrCode?: { id: string; status: string; amount?: number };
+    billing?: { id: string; status: string; amount?: number };
+  };
+}
+
+/**
+ * Constant-time string comparison that tolerates different lengths.
+ */
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  if (bufA.length !== bufB.length) return false;
+
+  return timingSafeEqual(bufA, bufB);
+}
+
+/**
+ * Runs an async function over items with at most `limit` calls in flight.
+ */
+async function mapWithConcurrency<T>(items: T[], limit: number, fn: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) await fn(items[next++]);
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
+
+/**
+ * Rejects when a promise does not settle within the given time.
+ */
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms);
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
 }
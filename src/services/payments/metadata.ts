@@ -0,0 +1,43 @@
+/**
+ * Helpers to encode and decode the metadata attached to provider charges.
+ * Provider metadata only holds flat string values, so fields are stored under snake_case keys.
+ */
+
+import { PaymentPurpose } from '../enums';
+
+/**
+ * Application metadata attached to every charge.
+ */
+export interface PaymentMetadata {
+  userId: string;
+  purpose: PaymentPurpose;
+}
+
+/**
+ * Encodes payment metadata into a flat string map accepted by providers.
+ *
+ * @param metadata User ID and purpose of the charge
+ * @returns Record<string, string> Provider metadata
+ */
+export function encode({ userId, purpose }: PaymentMetadata): Record<string, string> {
+  return {
+    user_id: userId,
+    purpose,
+  };
+}
+
+/**
+ * Decodes provider metadata back into payment metadata.
+ *
+ * @param raw Metadata returned by the provider
+ * @returns PaymentMetadata | null Decoded metadata, or null if it was not created by this API
+ */
+export function decode(raw: Record<string, unknown> | null | undefined): PaymentMetadata | null {
+  const userId = raw?.user_id;
+  const purpose = raw?.purpose;
+
+  if (typeof userId !== 'string' || !userId) return null;
+  if (!Object.values(PaymentPurpose).includes(purpose as PaymentPurpose)) return null;
+
+  return { userId, purpose: purpose as PaymentPurpose };
+}
@@ -5,15 +5,19 @@
 
 import type { RedisClient } from 'bun';
 import * as metadata from "./metadata";
+import * as records from "./records";
 import { StripePayment } from "./stripe";
 import { Abacate } from "./abacatepay";
+import type { PaymentProvider } from "./provider";
+import { PaymentGateway, PaymentMethod } from "../enums";
 
 /**
  * Main payments service that orchestrates payment integrations and metadata handling.
- * Includes AbacatePay (primary) and Stripe (legacy support).
+ * Includes AbacatePay (Pix) and Stripe (international cards).
  */
 export class Payments {
     metadata = metadata;
+    records = records;
     stripe: StripePayment = new StripePayment();
     abacate: Abacate;
 
@@ -26,4 +30,35 @@ export class Payments {
         const abacateApiKey = process.env.ABACATE_API_KEY || '';
         this.abacate = new Abacate(abacateApiKey, redisClient);
     }
+
+    /**
+     * Returns the provider integration for a gateway.
+     *
+     * @param gateway Gateway stored in the `payments.provider` column
+     * @returns PaymentProvider Provider integration
+     */
+    provider(gateway: PaymentGateway): PaymentProvider {
+        switch (gateway) {
+            case PaymentGateway.ABACATE:
+                return this.abacate;
+            case PaymentGateway.STRIPE:
+                return this.stripe;
+        }
+    }
+
+    /**
+     * Picks the provider that processes a payment method.
+     * Pix goes through AbacatePay and cards through Stripe.
+     *
+     * @param method Payment method chosen for the charge
+     * @returns PaymentProvider Provider integration
+     */
+    providerFor(method: PaymentMethod): PaymentProvider {
+        switch (method) {
+            case PaymentMethod.PIX:
+                return this.abacate;
+            case PaymentMethod.CARD:
+                return this.stripe;
+        }
+    }
 }
@@ -0,0 +1,142 @@
+/**
+ * Common contract implemented by every payment gateway integration.
+ * Lets routes, crons and webhooks handle charges without knowing which provider processes them.
+ */
+
+import { UnauthorizedError, UnprocessableError } from '../../errors';
+import type { PaymentGateway, PaymentStatus } from '../enums';
+import type { PaymentMetadata } from './metadata';
+
+/**
+ * Payment gateway integration interface.
+ */
+export interface PaymentProvider {
+  /** Gateway identifier stored in the `payments.provider` column. */
+  readonly name: PaymentGateway;
+
+  /**
+   * Creates a charge on the provider side.
+   *
+   * @param params Amount, currency and metadata for the charge
+   * @returns Promise<Charge> Provider charge details
+   */
+  createCharge(params: CreateChargeParams): Promise<Charge>;
+
+  /**
+   * Fetches the current status of a charge from the provider.
+   *
+   * @param providerId Charge ID on the provider side
+   * @returns Promise<ChargeStatus> Normalized charge status
+   */
+  checkStatus(providerId: string): Promise<ChargeStatus>;
+
+  /**
+   * Refunds a charge, fully or partially.
+   *
+   * @param params Charge ID and optional amount in cents (defaults to the full amount)
+   * @returns Promise<RefundResult> Provider refund details
+   */
+  refund(params: RefundParams): Promise<RefundResult>;
+
+  /**
+   * Verifies and parses a webhook delivery.
+   *
+   * @param request Raw body, headers and query of the webhook request
+   * @returns Promise<WebhookEvent> Normalized webhook event
+   * @throws WebhookVerificationError if the delivery is not authentic
+   */
+  parseWebhook(request: WebhookRequest): Promise<WebhookEvent>;
+
+  /**
+   * Stops any local tracking (e.g. polling) of a charge that reached a final state.
+   *
+   * @param providerId Charge ID on the provider side
+   */
+  untrack?(providerId: string): Promise<void>;
+}
+
+export interface CreateChargeParams {
+  /** Amount in cents */
+  amount: number;
+  /** ISO 4217 currency code, lowercase */
+  currency: string;
+  metadata: PaymentMetadata;
+  description?: string;
+}
+
+export interface Charge {
+  providerId: string;
+  status: PaymentStatus;
+  /** Pix "Copia e Cola" code */
+  code?: string;
+  /** Pix QR code image (base64) */
+  qr?: string;
+  /** Hosted checkout URL */
+  url?: string;
+  expiresAt?: Date;
+}
+
+export interface ChargeStatus {
+  status: PaymentStatus;
+  reason?: string;
+}
+
+export interface RefundParams {
+  providerId: string;
+  /** Amount in cents; omit for a full refund */
+  amount?: number;
+}
+
+export interface RefundResult {
+  refundId: string;
+  amount: number;
+}
+
+export interface WebhookRequest {
+  rawBody: string;
+  headers: Record<string, string | undefined>;
+  query: Record<string, string | undefined>;
+}
+
+export interface WebhookEvent {
+  /** Delivery ID, used to ignore duplicates */
+  id: string;
+  type: string;
+  /** Charge ID the event refers to, if any */
+  providerId?: string;
+  /** Final status implied by the event, if any */
+  status?: PaymentStatus.COMPLETED | PaymentStatus.FAILED;
+  reason?: string;
+}
+
+/**
+ * Webhook verification error with 401 status code.
+ */
+export class WebhookVerificationError extends UnauthorizedError {
+  name = 'WebhookVerificationError';
+
+  /**
+   * Creates a webhook verification error.
+   *
+   * @param message Error message to include in response
+   */
+  constructor(message = 'Invalid webhook signature.') {
+    super(message, 'invalid_webhook');
+  }
+}
+
+/**
+ * Unsupported provider operation error with 422 status code.
+ */
+export class UnsupportedOperationError extends UnprocessableError {
+  name = 'UnsupportedOperationError';
+
+  /**
+   * Creates an unsupported operation error.
+   *
+   * @param message Error message to include in response
+   */
+  constructor(message: string) {
+    super(message, 'unsupported_operation');
+  }
+}
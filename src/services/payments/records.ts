@@ -0,0 +1,339 @@
+/**
+ * Payment record helpers that keep the `payments` table in sync with provider state.
+ * Shared by the payment crons and routes so every status transition goes through one code path.
+ */
+
+import { and, eq, lte, sql } from 'drizzle-orm';
+import type { ApiDatabase } from '../../db/db';
+import { schema, type Payment, type Refund } from '../../db/schema';
+import { UnprocessableError } from '../../errors';
+import type { Services } from '../../types/types';
+import { type PaymentGateway, type PaymentMethod, PaymentPurpose, PaymentStatus } from '../enums';
+import type { Charge } from './provider';
+
+/**
+ * Creates a charge with the provider for the chosen payment method and persists it
+ * as a pending payment for the user.
+ *
+ * @param db Database instance
+ * @param services Services container
+ * @param userId User ID the payment belongs to
+ * @param amount Amount in cents
+ * @param method Payment method, which picks the provider
+ * @param currency ISO 4217 currency code, lowercase
+ * @param purpose What the payment is for (defaults to a one-off charge)
+ * @param subscriptionId Subscription the charge renews, if any
+ * @param description Optional charge description
+ * @returns Promise<{payment: Payment, charge: Charge}> Stored payment and provider charge details
+ */
+export async function createPayment(
+  { db, services }: { db: ApiDatabase; services: Services },
+  {
+    userId,
+    amount,
+    method,
+    currency,
+    purpose = PaymentPurpose.ONE_OFF,
+    subscriptionId,
+    description,
+  }: {
+    userId: string;
+    amount: number;
+    method: PaymentMethod;
+    currency: string;
+    purpose?: PaymentPurpose;
+    subscriptionId?: string;
+    description?: string;
+  },
+): Promise<{ payment: Payment; charge: Charge }> {
+  const provider = services.payments.providerFor(method);
+
+  const charge = await provider.createCharge({
+    amount,
+    currency,
+    description,
+    metadata: { userId, purpose },
+  });
+
+  const [payment] = await db
+    .insert(schema.payments)
+    .values({
+      userId,
+      amount,
+      currency,
+      purpose,
+      subscriptionId,
+      provider: provider.name,
+      providerId: charge.providerId,
+      status: PaymentStatus.PENDING,
+    })
+    .returning();
+
+  return { payment, charge };
+}
+
+/**
+ * Moves a pending payment to its final state and notifies admins about it.
+ * Payments that are missing or already settled are left untouched, so this is safe
+ * to call more than once for the same provider charge.
+ *
+ * @param db Database instance
+ * @param services Services container
+ * @param provider Gateway that processed the charge
+ * @param providerId Charge ID on the provider side
+ * @param status Final payment status
+ * @param reason Optional failure reason
+ * @returns Promise<Payment | null> Updated payment, or null if nothing changed
+ */
+export async function settlePayment(
+  { db, services }: { db: ApiDatabase; services: Services },
+  {
+    provider,
+    providerId,
+    status,
+    reason,
+  }: {
+    provider: PaymentGateway;
+    providerId: string;
+    status: PaymentStatus.COMPLETED | PaymentStatus.FAILED;
+    reason?: string;
+  },
+): Promise<Payment | null> {
+  const now = new Date();
+
+  const [payment] = await db
+    .update(schema.payments)
+    .set({
+      status,
+      updatedAt: now,
+      completedAt: status === PaymentStatus.COMPLETED ? now : null,
+      failureReason: status === PaymentStatus.FAILED ? (reason ?? null) : null,
+    })
+    .where(
+      and(
+        eq(schema.payments.provider, provider),
+        eq(schema.payments.providerId, providerId),
+        eq(schema.payments.status, PaymentStatus.PENDING),
+      ),
+    )
+    .returning();
+
+  if (!payment) return null;
+
+  await services.payments.provider(provider).untrack?.(providerId);
+
+  if (status === PaymentStatus.COMPLETED) {
+    services.notifications.notify('payments.success', {
+      userId: payment.userId,
+      amount: payment.amount,
+      transactionId: payment.providerId,
+    });
+  } else {
+    services.notifications.notify('payments.failure', {
+      userId: payment.userId,
+      amount: payment.amount,
+      transactionId: payment.providerId,
+      reason: payment.failureReason ?? undefined,
+    });
+  }
+
+  if (payment.subscriptionId) {
+    await services.subscriptions.handlePaymentSettled({ db, services }, payment);
+  }
+
+  return payment;
+}
+
+/**
+ * Lists the pending payments of a provider.
+ *
+ * @param db Database instance
+ * @param provider Gateway that processed the charges
+ * @returns Promise<{providerId: string, createdAt: Date}[]> Charge IDs and creation times
+ */
+export async function listPendingPayments(
+  db: ApiDatabase,
+  provider: PaymentGateway,
+): Promise<{ providerId: string; createdAt: Date }[]> {
+  return db.query.payments.findMany({
+    columns: { providerId: true, createdAt: true },
+    where: (payments, { and, eq }) =>
+      and(eq(payments.provider, provider), eq(payments.status, PaymentStatus.PENDING)),
+  });
+}
+
+/**
+ * Refunds a completed payment, fully or partially, through its provider.
+ * The refunded amount is reserved before the provider call so concurrent refunds
+ * can never exceed the charge, and released again if the provider rejects it.
+ * A payment becomes `refunded` once its whole amount has been given back.
+ *
+ * @param db Database instance
+ * @param services Services container
+ * @param payment Payment to refund
+ * @param amount Amount in cents; defaults to everything not refunded yet
+ * @param reason Optional reason, stored with the refund
+ * @param requestedBy ID of the admin issuing the refund
+ * @returns Promise<{payment: Payment, refund: Refund}> Updated payment and the recorded refund
+ * @throws RefundError if the payment is not refundable or the amount exceeds what is left
+ */
+export async function refundPayment(
+  { db, services }: { db: ApiDatabase; services: Services },
+  {
+    payment,
+    amount,
+    reason,
+    requestedBy,
+  }: {
+    payment: Payment;
+    amount?: number;
+    reason?: string;
+    requestedBy?: string;
+  },
+): Promise<{ payment: Payment; refund: Refund }> {
+  if (payment.status !== PaymentStatus.COMPLETED) {
+    throw new RefundError('Only completed payments can be refunded.');
+  }
+
+  const remaining = payment.amount - payment.refundedAmount;
+  const value = amount ?? remaining;
+  if (value <= 0 || value > remaining) {
+    throw new RefundError(`Refund amount must be between 1 and ${remaining} cents.`);
+  }
+
+  const [reserved] = await db
+    .update(schema.payments)
+    .set({ refundedAmount: sql`${schema.payments.refundedAmount} + ${value}` })
+    .where(
+      and(
+        eq(schema.payments.id, payment.id),
+        eq(schema.payments.status, PaymentStatus.COMPLETED),
+        lte(sql`${schema.payments.refundedAmount} + ${value}`, schema.payments.amount),
+      ),
+    )
+    .returning();
+
+  if (!reserved) throw new RefundError('The payment changed while refunding, please try again.');
+
+  const result = await services.payments
+    .provider(payment.provider as PaymentGateway)
+    .refund({ providerId: payment.providerId, amount: value })
+    .catch(async (error) => {
+      // Releases the reserved amount
+      await db
+        .update(schema.payments)
+        .set({ refundedAmount: sql`${schema.payments.refundedAmount} - ${value}` })
+        .where(eq(schema.payments.id, payment.id));
+      throw error;
+    });
+
+  const [refund] = await db
+    .insert(schema.refunds)
+    .values({
+      paymentId: payment.id,
+      amount: value,
+      providerRefundId: result.refundId,
+      reason,
+      requestedBy,
+    })
+    .returning();
+
+  const now = new Date();
+  const [updated] = await db
+    .update(schema.payments)
+    .set({
+      status: reserved.refundedAmount >= reserved.amount ? PaymentStatus.REFUNDED : PaymentStatus.COMPLETED,
+      updatedAt: now,
+    })
+    .where(eq(schema.payments.id, payment.id))
+    .returning();
+
+  services.notifications.notify('payments.refund', {
+    userId: payment.userId,
+    amount: value,
+    transactionId: payment.providerId,
+    refundId: result.refundId,
+    reason,
+  });
+
+  return { payment: updated, refund };
+}
+
+/**
+ * Checks whether a provider webhook delivery has already been processed.
+ *
+ * @param db Database instance
+ * @param provider Gateway that sent the event
+ * @param eventId Delivery ID sent by the provider
+ * @returns Promise<boolean> True if the event was already recorded
+ */
+export async function hasEvent(
+  db: ApiDatabase,
+  { provider, eventId }: { provider: PaymentGateway; eventId: string },
+): Promise<boolean> {
+  const event = await db.query.paymentEvents.findFirst({
+    columns: { id: true },
+    where: (paymentEvents, { and, eq }) =>
+      and(eq(paymentEvents.provider, provider), eq(paymentEvents.eventId, eventId)),
+  });
+
+  return !!event;
+}
+
+/**
+ * Records a provider webhook delivery and links it to the matching payment, if any.
+ * Duplicate deliveries are ignored.
+ *
+ * @param db Database instance
+ * @param provider Gateway that sent the event
+ * @param eventId Delivery ID sent by the provider
+ * @param eventType Event name (e.g. `billing.paid`)
+ * @param providerId Charge ID the event refers to, if known
+ * @param payload Raw webhook body
+ * @returns Promise<void>
+ */
+export async function recordEvent(
+  db: ApiDatabase,
+  {
+    provider,
+    eventId,
+    eventType,
+    providerId,
+    payload,
+  }: {
+    provider: PaymentGateway;
+    eventId: string;
+    eventType: string;
+    providerId?: string;
+    payload: string;
+  },
+): Promise<void> {
+  const payment = providerId
+    ? await db.query.payments.findFirst({
+        columns: { id: true },
+        where: (payments, { and, eq }) =>
+          and(eq(payments.provider, provider), eq(payments.providerId, providerId)),
+      })
+    : undefined;
+
+  await db
+    .insert(schema.paymentEvents)
+    .values({ provider, eventId, eventType, paymentId: payment?.id, payload })
+    .onConflictDoNothing();
+}
+
+/**
+ * Error thrown when a payment cannot be refunded as requested.
+ */
+export class RefundError extends UnprocessableError {
+  name = 'RefundError';
+
+  /**
+   * Creates a refund error.
+   *
+   * @param message Error message to include in response
+   */
+  constructor(message: string) {
+    super(message, 'invalid_refund');
+  }
+}
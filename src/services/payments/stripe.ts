@@ -0,0 +1,178 @@
+/**
+ * Stripe integration for international card payments through Checkout Sessions.
+ * Charges are confirmed by the signature-verified Stripe webhook.
+ */
+
+import Stripe from 'stripe';
+import { PaymentGateway, PaymentStatus } from '../enums';
+import * as metadata from './metadata';
+import {
+  type Charge,
+  type ChargeStatus,
+  type CreateChargeParams,
+  type PaymentProvider,
+  type RefundParams,
+  type RefundResult,
+  type WebhookEvent,
+  type WebhookRequest,
+  UnsupportedOperationError,
+  WebhookVerificationError,
+} from './provider';
+
+const SESSION_EXPIRATION = 60 * 60 * 24; // 24 hours, the Checkout maximum
+
+/**
+ * Stripe payment provider backed by hosted Checkout Sessions.
+ * Stays disabled (every call throws) when `STRIPE_API_KEY` is not set.
+ */
+export class StripePayment implements PaymentProvider {
+  readonly name = PaymentGateway.STRIPE;
+  private client?: Stripe;
+
+  /**
+   * Initializes the Stripe client from environment variables.
+   */
+  constructor() {
+    if (!process.env.STRIPE_API_KEY) return;
+    this.client = new Stripe(process.env.STRIPE_API_KEY);
+  }
+
+  /**
+   * Creates a Checkout Session for a one-time card payment.
+   *
+   * @param amount Amount in cents
+   * @param currency ISO 4217 currency code
+   * @param metadata User ID and purpose, attached to the session and payment intent
+   * @param description Optional line item name
+   * @returns Promise<Charge> Charge with the hosted checkout URL
+   */
+  async createCharge({ amount, currency, metadata: meta, description }: CreateChargeParams): Promise<Charge> {
+    const client = this.getClient();
+    const encoded = metadata.encode(meta);
+    const expiresAt = new Date(Date.now() + SESSION_EXPIRATION * 1000);
+
+    const session = await client.checkout.sessions.create({
+      mode: 'payment',
+      client_reference_id: meta.userId,
+      line_items: [
+        {
+          quantity: 1,
+          price_data: {
+            currency,
+            unit_amount: amount,
+            product_data: { name: description ?? 'Payment' },
+          },
+        },
+      ],
+      metadata: encoded,
+      payment_intent_data: { metadata: encoded },
+      success_url: process.env.STRIPE_SUCCESS_URL || `${process.env.BASE_URL}/`,
+      cancel_url: process.env.STRIPE_CANCEL_URL || `${process.env.BASE_URL}/`,
+      expires_at: Math.floor(expiresAt.getTime() / 1000),
+    });
+
+    return {
+      providerId: session.id,
+      status: PaymentStatus.PENDING,
+      url: session.url ?? undefined,
+      expiresAt,
+    };
+  }
+
+  /**
+   * Fetches the normalized status of a Checkout Session.
+   *
+   * @param providerId Checkout Session ID
+   * @returns Promise<ChargeStatus> Normalized charge status
+   */
+  async checkStatus(providerId: string): Promise<ChargeStatus> {
+    const session = await this.getClient().checkout.sessions.retrieve(providerId);
+    return sessionStatus(session);
+  }
+
+  /**
+   * Refunds the payment intent behind a Checkout Session.
+   *
+   * @param providerId Checkout Session ID
+   * @param amount Amount in cents; omit for a full refund
+   * @returns Promise<RefundResult> Stripe refund ID and refunded amount
+   */
+  async refund({ providerId, amount }: RefundParams): Promise<RefundResult> {
+    const client = this.getClient();
+    const session = await client.checkout.sessions.retrieve(providerId);
+
+    const paymentIntent =
+      typeof session.payment_intent === 'string' ? session.payment_intent : session.payment_intent?.id;
+    if (!paymentIntent) throw new UnsupportedOperationError('This payment has not been captured yet.');
+
+    const refund = await client.refunds.create({ payment_intent: paymentIntent, amount });
+
+    return { refundId: refund.id, amount: refund.amount };
+  }
+
+  /**
+   * Verifies the `Stripe-Signature` header and parses Checkout Session events.
+   *
+   * @param rawBody Raw request body, exactly as received
+   * @param headers Request headers (`stripe-signature`)
+   * @returns Promise<WebhookEvent> Event ID, type, session ID and resulting status (if final)
+   * @throws WebhookVerificationError if the signature is invalid
+   */
+  async parseWebhook({ rawBody, headers }: WebhookRequest): Promise<WebhookEvent> {
+    const client = this.getClient();
+    const secret = process.env.STRIPE_WEBHOOK_SECRET;
+    const signature = headers['stripe-signature'];
+    if (!secret || !signature) throw new WebhookVerificationError();
+
+    let event: Stripe.Event;
+    try {
+      event = await client.webhooks.constructEventAsync(rawBody, signature, secret);
+    } catch {
+      throw new WebhookVerificationError();
+    }
+
+    if (!event.type.startsWith('checkout.session.')) {
+      return { id: event.id, type: event.type };
+    }
+
+    const session = event.data.object as Stripe.Checkout.Session;
+
+    if (event.type === 'checkout.session.async_payment_failed') {
+      return {
+        id: event.id,
+        type: event.type,
+        providerId: session.id,
+        status: PaymentStatus.FAILED,
+        reason: 'ASYNC_PAYMENT_FAILED',
+      };
+    }
+
+    const { status, reason } = sessionStatus(session);
+
+    return {
+      id: event.id,
+      type: event.type,
+      providerId: session.id,
+      status: status === PaymentStatus.COMPLETED || status === PaymentStatus.FAILED ? status : undefined,
+      reason,
+    };
+  }
+
+  private getClient(): Stripe {
+    if (!this.client) throw new UnsupportedOperationError('Stripe is not configured.');
+    return this.client;
+  }
+}
+
+/**
+ * Maps a Checkout Session to a normalized payment status.
+ * Sessions paid with delayed methods stay pending until `payment_status` is `paid`.
+ */
+function sessionStatus(session: Stripe.Checkout.Session): ChargeStatus {
+  if (session.payment_status === 'paid' || session.payment_status === 'no_payment_required') {
+    return { status: PaymentStatus.COMPLETED };
+  }
+  if (session.status === 'expired') return { status: PaymentStatus.FAILED, reason: 'EXPIRED' };
+
+  return { status: PaymentStatus.PENDING };
+}
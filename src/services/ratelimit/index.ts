@@ -0,0 +1,6 @@
+/**
+ * Re-exports the rate limiter.
+ * Provides centralized access to rate limits and brute-force lockouts.
+ */
+
+export * from './ratelimit';
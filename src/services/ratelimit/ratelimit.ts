@@ -0,0 +1,310 @@
+/**
+ * Redis-backed rate limiting and brute-force lockouts, shared by every replica through the common Redis client.
+ * Limits are fixed windows counted per route and per key (client IP, email or user ID);
+ * lockouts grow with each failure past a threshold (e.g. wrong passwords for an email).
+ */
+
+import type { RedisClient } from 'bun';
+import { createHash } from 'node:crypto';
+import { durationFromEnv, parseDuration, positiveIntFromEnv } from '../../config';
+import { logger } from '../logger';
+import type { Notifier } from '../notifier/notifier';
+
+/**
+ * What a limit counts requests by.
+ */
+export type RateLimitKey = 'ip' | 'email' | 'user';
+
+/**
+ * Maximum number of requests in a window of time (in milliseconds).
+ */
+export interface RateLimitRule {
+  max: number;
+  window: number;
+}
+
+/**
+ * Limits of a route, by key. Requests must pass all of them.
+ */
+export type RouteRateLimits = Partial<Record<RateLimitKey, RateLimitRule>>;
+
+/**
+ * Outcome of counting a request against a rule, used for the `RateLimit-*` headers.
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Seconds until the window resets */
+  reset: number;
+}
+
+/**
+ * Progressive lockout rules. Durations are in milliseconds.
+ */
+export interface LockoutPolicy {
+  /** Failures (within `failureWindow`) before the first lockout */
+  threshold: number;
+  /** Failures are forgotten this long after the last one */
+  failureWindow: number;
+  /** First lockout; each further failure doubles it */
+  baseDuration: number;
+  maxDuration: number;
+  /** Lockouts, across all keys, within `alertWindow` that trigger a `system.lockoutSpike` notification */
+  alertThreshold: number;
+  alertWindow: number;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+/**
+ * Default limits of the rate limited routes. Each can be overridden with `RATE_LIMIT_<ROUTE>_<KEY>`,
+ * e.g. `RATE_LIMIT_LOGIN_EMAIL="10/15m"` (or `off`).
+ */
+export const DEFAULT_RATE_LIMITS: Record<string, RouteRateLimits> = {
+  'login': { ip: { max: 30, window: 15 * MINUTE }, email: { max: 10, window: 15 * MINUTE } },
+  'register': { ip: { max: 10, window: HOUR } },
+  'confirm-email': { ip: { max: 30, window: 15 * MINUTE }, email: { max: 10, window: 15 * MINUTE } },
+  'resend-confirmation-code': { ip: { max: 10, window: HOUR }, email: { max: 3, window: 15 * MINUTE } },
+  'forgot-password': { ip: { max: 10, window: HOUR }, email: { max: 3, window: 15 * MINUTE } },
+  'reset-password': { ip: { max: 30, window: 15 * MINUTE }, email: { max: 10, window: 15 * MINUTE } },
+  'magic-link': { ip: { max: 20, window: HOUR } },
+  'magic-link-verify': { ip: { max: 30, window: 15 * MINUTE }, email: { max: 10, window: 15 * MINUTE } },
+  'mfa-verify': { ip: { max: 30, window: 15 * MINUTE } },
+  'mfa-code': { user: { max: 10, window: 15 * MINUTE } },
+};
+
+/**
+ * Lockout policy used when none is configured: locked for 1 minute after 5 failures, doubling up to 1 hour;
+ * alert on 10 lockouts in 5 minutes.
+ */
+export const DEFAULT_LOCKOUT_POLICY: LockoutPolicy = {
+  threshold: 5,
+  failureWindow: 24 * HOUR,
+  baseDuration: MINUTE,
+  maxDuration: HOUR,
+  alertThreshold: 10,
+  alertWindow: 5 * MINUTE,
+};
+
+/**
+ * Atomically counts a request in a fixed window: `INCR`, `PEXPIRE` on the first request, then the remaining `PTTL`.
+ */
+const INCREMENT_SCRIPT = `
+local count = redis.call('INCR', KEYS[1])
+if count == 1 then redis.call('PEXPIRE', KEYS[1], ARGV[1]) end
+return { count, redis.call('PTTL', KEYS[1]) }
+`;
+
+/**
+ * Rate limiter and lockout tracker. Redis errors are logged and let requests through, so an outage
+ * of Redis does not lock everyone out.
+ */
+export class RateLimiter {
+  /**
+   * Initializes the rate limiter.
+   *
+   * @param redis Shared Redis client
+   * @param notifier Notifier used for lockout spike alerts
+   * @param limits Limits by route (see {@link DEFAULT_RATE_LIMITS})
+   * @param lockout Lockout rules
+   */
+  constructor(
+    private redis: RedisClient,
+    private notifier: Notifier,
+    private limits: Record<string, RouteRateLimits> = DEFAULT_RATE_LIMITS,
+    private lockout: LockoutPolicy = DEFAULT_LOCKOUT_POLICY,
+  ) {}
+
+  /**
+   * Gets the limits of a route.
+   *
+   * @param route Route name, e.g. `login`
+   * @returns RouteRateLimits Limits by key (empty if the route is not limited)
+   */
+  routeLimits(route: string): RouteRateLimits {
+    return this.limits[route] ?? {};
+  }
+
+  /**
+   * Counts a request against a rule.
+   *
+   * @param route Route name
+   * @param key What the rule counts by
+   * @param value Value of the key (IP, email or user ID); hashed before it reaches Redis
+   * @param rule Rule to apply
+   * @returns Promise<RateLimitResult> Whether the request is allowed, and the state of the window
+   */
+  async consume(route: string, key: RateLimitKey, value: string, rule: RateLimitRule): Promise<RateLimitResult> {
+    try {
+      const [count, ttl] = await this.increment(`ratelimit:${route}:${key}:${hash(value)}`, rule.window);
+
+      return {
+        allowed: count <= rule.max,
+        limit: rule.max,
+        remaining: Math.max(rule.max - count, 0),
+        reset: Math.ceil(Math.max(ttl, 0) / 1000),
+      };
+    } catch (error) {
+      logger.error('Error checking rate limit', { error });
+      return { allowed: true, limit: rule.max, remaining: rule.max, reset: Math.ceil(rule.window / 1000) };
+    }
+  }
+
+  /**
+   * Gets how long a key is still locked out.
+   *
+   * @param scope What is protected, e.g. `login`
+   * @param value Key (e.g. the email)
+   * @returns Promise<number> Seconds left, 0 if not locked
+   */
+  async lockedFor(scope: string, value: string): Promise<number> {
+    try {
+      const ttl = await this.redis.send('PTTL', [lockKey(scope, value)]);
+
+      return ttl > 0 ? Math.ceil(ttl / 1000) : 0;
+    } catch (error) {
+      logger.error('Error checking lockout', { error });
+      return 0;
+    }
+  }
+
+  /**
+   * Records a failure (e.g. a wrong password). Past the threshold, the key is locked out, for twice as long
+   * with each further failure.
+   *
+   * @param scope What is protected, e.g. `login`
+   * @param value Key (e.g. the email)
+   * @returns Promise<number> Seconds the key is now locked out for, 0 if not locked
+   */
+  async recordFailure(scope: string, value: string): Promise<number> {
+    try {
+      const [failures] = await this.increment(failuresKey(scope, value), this.lockout.failureWindow);
+      // Each failure keeps the count alive for a full window
+      await this.redis.send('PEXPIRE', [failuresKey(scope, value), String(this.lockout.failureWindow)]);
+
+      if (failures < this.lockout.threshold) return 0;
+
+      const duration = Math.min(this.lockout.baseDuration * 2 ** (failures - this.lockout.threshold), this.lockout.maxDuration);
+      await this.redis.send('SET', [lockKey(scope, value), '1', 'PX', String(duration)]);
+      await this.countLockout(scope);
+
+      return Math.ceil(duration / 1000);
+    } catch (error) {
+      logger.error('Error recording failure', { error });
+      return 0;
+    }
+  }
+
+  /**
+   * Forgets the failures of a key after a success. An active lockout is kept.
+   *
+   * @param scope What is protected, e.g. `login`
+   * @param value Key (e.g. the email)
+   * @returns Promise<void>
+   */
+  async clearFailures(scope: string, value: string): Promise<void> {
+    try {
+      await this.redis.del(failuresKey(scope, value));
+    } catch (error) {
+      logger.error('Error clearing failures', { error });
+    }
+  }
+
+  /**
+   * Counts a lockout across all keys and alerts once per window when they spike.
+   */
+  private async countLockout(scope: string): Promise<void> {
+    const [lockouts] = await this.increment(`lockout:spike:${scope}`, this.lockout.alertWindow);
+
+    if (lockouts === this.lockout.alertThreshold) {
+      this.notifier.notify('system.lockoutSpike', {
+        scope,
+        lockouts,
+        minutes: Math.round(this.lockout.alertWindow / MINUTE),
+      });
+    }
+  }
+
+  /**
+   * Increments a counter that expires `window` milliseconds after its first increment.
+   *
+   * @returns Promise<[number, number]> Count, and milliseconds until it expires
+   */
+  private async increment(key: string, window: number): Promise<[number, number]> {
+    const [count, ttl] = await this.redis.send('EVAL', [INCREMENT_SCRIPT, '1', key, String(window)]);
+
+    return [Number(count), Number(ttl)];
+  }
+}
+
+/**
+ * Reads the rate limits and lockout policy: `RATE_LIMIT_<ROUTE>_<KEY>` (`<max>/<duration>` or `off`) overrides
+ * each default limit, and `LOGIN_LOCKOUT_THRESHOLD`, `LOGIN_LOCKOUT_DURATION`, `LOGIN_LOCKOUT_MAX_DURATION`
+ * and `LOCKOUT_ALERT_THRESHOLD` the lockout policy.
+ *
+ * @returns Limits by route and lockout policy
+ * @throws Error if a variable is not valid
+ */
+export function rateLimitsFromEnv(): { limits: Record<string, RouteRateLimits>; lockout: LockoutPolicy } {
+  const limits: Record<string, RouteRateLimits> = {};
+
+  for (const [route, defaults] of Object.entries(DEFAULT_RATE_LIMITS)) {
+    limits[route] = {};
+
+    for (const [key, rule] of Object.entries(defaults) as [RateLimitKey, RateLimitRule][]) {
+      const name = `RATE_LIMIT_${route.toUpperCase().replace(/-/g, '_')}_${key.toUpperCase()}`;
+      const value = process.env[name]?.trim();
+
+      if (!value) limits[route][key] = rule;
+      else if (value !== 'off') limits[route][key] = parseRule(name, value);
+    }
+  }
+
+  return {
+    limits,
+    lockout: {
+      ...DEFAULT_LOCKOUT_POLICY,
+      threshold: positiveIntFromEnv('LOGIN_LOCKOUT_THRESHOLD', DEFAULT_LOCKOUT_POLICY.threshold),
+      baseDuration: durationFromEnv('LOGIN_LOCKOUT_DURATION', DEFAULT_LOCKOUT_POLICY.baseDuration),
+      maxDuration: durationFromEnv('LOGIN_LOCKOUT_MAX_DURATION', DEFAULT_LOCKOUT_POLICY.maxDuration),
+      alertThreshold: positiveIntFromEnv('LOCKOUT_ALERT_THRESHOLD', DEFAULT_LOCKOUT_POLICY.alertThreshold),
+    },
+  };
+}
+
+/**
+ * Parses a `<max>/<duration>` rule, e.g. `10/15m`.
+ */
+function parseRule(name: string, value: string): RateLimitRule {
+  const [max, window] = value.split('/');
+  const rule = { max: Number(max), window: window ? parseDuration(window) : null };
+
+  if (!Number.isInteger(rule.max) || rule.max < 1 || !rule.window) {
+    throw new Error(`${name} must look like 10/15m (max requests/window) or be "off" (got "${value}")`);
+  }
+
+  return rule as RateLimitRule;
+}
+
+/**
+ * Hashes a key value so IPs and emails are not stored in Redis.
+ */
+function hash(value: string): string {
+  return createHash('sha256').update(value.trim().toLowerCase()).digest('hex').slice(0, 32);
+}
+
+/**
+ * Redis key of the failure count of a key.
+ */
+function failuresKey(scope: string, value: string): string {
+  return `lockout:failures:${scope}:${hash(value)}`;
+}
+
+/**
+ * Redis key of the lockout of a key.
+ */
+function lockKey(scope: string, value: string): string {
+  return `lockout:lock:${scope}:${hash(value)}`;
+}
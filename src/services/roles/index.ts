@@ -0,0 +1,6 @@
+/**
+ * Re-exports role and permission helpers.
+ * Provides centralized access to role management, assignments and permission checks.
+ */
+
+export * from './roles';
@@ -0,0 +1,248 @@
+/**
+ * Roles and permissions (RBAC).
+ * Roles are stored in the database with a set of named permissions and assigned to users;
+ * the union of a user's permissions is cached in their sessions and kept in sync on every change.
+ */
+
+import { and, asc, count, eq, inArray } from 'drizzle-orm';
+import type { ApiDatabase } from '../../db/db';
+import { schema, type Role, type User } from '../../db/schema';
+import type { Services } from '../../types/types';
+import { Permission, UserRole } from '../enums';
+
+/**
+ * Lists every role with the number of users it is assigned to.
+ *
+ * @param db Database instance
+ * @returns Promise<(Role & {users: number})[]> Roles, by slug
+ */
+export async function listRoles(db: ApiDatabase) {
+  const [roles, counts] = await Promise.all([
+    db.select().from(schema.roles).orderBy(asc(schema.roles.slug)),
+    db
+      .select({ roleId: schema.userRoles.roleId, users: count() })
+      .from(schema.userRoles)
+      .groupBy(schema.userRoles.roleId),
+  ]);
+
+  return roles.map((role) => ({ ...role, users: counts.find(({ roleId }) => roleId === role.id)?.users ?? 0 }));
+}
+
+/**
+ * Finds a role by ID or slug.
+ *
+ * @param db Database instance
+ * @param idOrSlug Role ID or slug
+ * @returns Promise<Role | undefined> Role, if found
+ */
+export async function getRole(db: ApiDatabase, idOrSlug: string): Promise<Role | undefined> {
+  return db.query.roles.findFirst({
+    where: (roles, { eq, or }) => or(eq(roles.id, idOrSlug), eq(roles.slug, idOrSlug)),
+  });
+}
+
+/**
+ * Lists the roles assigned to a user.
+ *
+ * @param db Database instance
+ * @param userId User ID
+ * @returns Promise<Role[]> Assigned roles
+ */
+export async function getUserRoles(db: ApiDatabase, userId: string): Promise<Role[]> {
+  const rows = await db
+    .select({ role: schema.roles })
+    .from(schema.userRoles)
+    .innerJoin(schema.roles, eq(schema.roles.id, schema.userRoles.roleId))
+    .where(eq(schema.userRoles.userId, userId))
+    .orderBy(asc(schema.roles.slug));
+
+  return rows.map(({ role }) => role);
+}
+
+/**
+ * Resolves the permissions a user gets from all of their roles.
+ *
+ * @param db Database instance
+ * @param userId User ID
+ * @returns Promise<string[]> Sorted, deduplicated permission names
+ */
+export async function getUserPermissions(db: ApiDatabase, userId: string): Promise<string[]> {
+  const roles = await getUserRoles(db, userId);
+
+  return [...new Set(roles.flatMap((role) => role.permissions))].sort();
+}
+
+/**
+ * Checks that granted permissions include every required one.
+ *
+ * @param granted Permissions of the user (see {@link getUserPermissions})
+ * @param required Permissions to check
+ * @returns boolean True if `*` or every required permission is granted
+ */
+export function hasPermissions(granted: string[] | undefined, required: string[]): boolean {
+  if (!granted) return false;
+  if (granted.includes(Permission.ALL)) return true;
+
+  return required.every((permission) => granted.includes(permission));
+}
+
+/**
+ * Creates a role.
+ *
+ * @param db Database instance
+ * @param role Role slug, name, description and permissions
+ * @returns Promise<Role> Created role
+ */
+export async function createRole(
+  db: ApiDatabase,
+  { slug, name, description, permissions }: { slug: string; name: string; description?: string; permissions: string[] },
+): Promise<Role> {
+  const [role] = await db.insert(schema.roles).values({ slug, name, description, permissions }).returning();
+
+  return role;
+}
+
+/**
+ * Updates a role and applies its new permissions to the live sessions of its users.
+ *
+ * @param db Database instance
+ * @param services Services container
+ * @param role Role to update
+ * @param data Fields to change
+ * @returns Promise<Role> Updated role
+ */
+export async function updateRole(
+  { db, services }: { db: ApiDatabase; services: Services },
+  { role, data }: { role: Role; data: { name?: string; description?: string; permissions?: string[] } },
+): Promise<Role> {
+  const [updated] = await db
+    .update(schema.roles)
+    .set({ ...data, updatedAt: new Date() })
+    .where(eq(schema.roles.id, role.id))
+    .returning();
+
+  if (data.permissions) await syncSessionPermissions({ db, services }, await roleUserIds(db, role.id));
+
+  return updated;
+}
+
+/**
+ * Deletes a role, unassigning it from its users and updating their live sessions.
+ *
+ * @param db Database instance
+ * @param services Services container
+ * @param role Role to delete (must not be a system role)
+ * @returns Promise<void>
+ */
+export async function deleteRole({ db, services }: { db: ApiDatabase; services: Services }, role: Role): Promise<void> {
+  const userIds = await roleUserIds(db, role.id);
+
+  await db.delete(schema.roles).where(eq(schema.roles.id, role.id));
+
+  await syncSessionPermissions({ db, services }, userIds);
+}
+
+/**
+ * Replaces the roles assigned to a user and applies them to their live sessions.
+ * The system role matching `users.role` (`admin` or `user`) is always kept.
+ *
+ * @param db Database instance
+ * @param services Services container
+ * @param user User to change
+ * @param roles Roles to assign
+ * @param adminId Admin making the change
+ * @returns Promise<Role[]> Roles now assigned to the user
+ */
+export async function setUserRoles(
+  { db, services }: { db: ApiDatabase; services: Services },
+  { user, roles, adminId }: { user: User; roles: Role[]; adminId: string },
+): Promise<Role[]> {
+  const roleIds = roles.map(({ id }) => id);
+  const base = await getRole(db, user.role);
+  if (base && !roleIds.includes(base.id)) roleIds.push(base.id);
+
+  await db.delete(schema.userRoles).where(eq(schema.userRoles.userId, user.id));
+  if (roleIds.length > 0) {
+    await db.insert(schema.userRoles).values(roleIds.map((roleId) => ({ userId: user.id, roleId, assignedBy: adminId })));
+  }
+
+  await syncSessionPermissions({ db, services }, [user.id]);
+
+  const assigned = await getUserRoles(db, user.id);
+
+  services.notifications.notify('users.roleChanged', {
+    userId: user.id,
+    email: user.email,
+    role: assigned.map(({ slug }) => slug).join(', '),
+    adminId,
+  });
+
+  return assigned;
+}
+
+/**
+ * Assigns the system role matching `users.role` (`admin` or `user`), replacing the other one.
+ * Called when a user is created and when their role changes.
+ *
+ * @param db Database instance
+ * @param userId User ID
+ * @param role Role of the user
+ * @param adminId Admin making the change, if any
+ * @returns Promise<void>
+ */
+export async function assignSystemRole(
+  db: ApiDatabase,
+  { userId, role, adminId }: { userId: string; role: UserRole; adminId?: string },
+): Promise<void> {
+  const systemRoles = await db
+    .select()
+    .from(schema.roles)
+    .where(inArray(schema.roles.slug, Object.values(UserRole)));
+
+  const current = systemRoles.find(({ slug }) => slug === role);
+  const others = systemRoles.filter(({ slug }) => slug !== role).map(({ id }) => id);
+
+  if (others.length > 0) {
+    await db
+      .delete(schema.userRoles)
+      .where(and(eq(schema.userRoles.userId, userId), inArray(schema.userRoles.roleId, others)));
+  }
+
+  if (current) {
+    await db
+      .insert(schema.userRoles)
+      .values({ userId, roleId: current.id, assignedBy: adminId })
+      .onConflictDoNothing();
+  }
+}
+
+/**
+ * Recomputes the permissions of users and writes them to their live sessions.
+ *
+ * @param db Database instance
+ * @param services Services container
+ * @param userIds Users to update
+ * @returns Promise<void>
+ */
+export async function syncSessionPermissions(
+  { db, services }: { db: ApiDatabase; services: Services },
+  userIds: string[],
+): Promise<void> {
+  await Promise.all(
+    userIds.map(async (userId) =>
+      services.auth.sessions.updateUserSessions(userId, { permissions: await getUserPermissions(db, userId) }),
+    ),
+  );
+}
+
+/**
+ * IDs of the users a role is assigned to.
+ */
+async function roleUserIds(db: ApiDatabase, roleId: string): Promise<string[]> {
+  const rows = await db
+    .select({ userId: schema.userRoles.userId })
+    .from(schema.userRoles)
+    .where(eq(schema.userRoles.roleId, roleId));
+
+  return rows.map(({ userId }) => userId);
+}
@@ -6,26 +6,42 @@
 import { RedisClient } from "bun";
 import { Auth } from "./auth/auth";
 import { AWS } from "./aws/aws";
+import { logger } from "./logger";
 import { Notifier } from "./notifier/notifier";
+import { ErrorReporter } from "./notifier/reporter";
 import { Payments } from "./payments";
+import { RateLimiter, rateLimitsFromEnv } from "./ratelimit";
 import * as enums from "./enums";
+import * as roles from "./roles";
+import * as subscriptions from "./subscriptions";
+import * as users from "./users";
 
 // Create a single Redis client instance to be shared across services
 const redisClient = new RedisClient();
 redisClient.connect();
 redisClient.onconnect = () => {
-  console.log('Connected to Redis');
+  logger.info('Connected to Redis');
 };
 
+const aws = new AWS();
+const notifications = new Notifier();
+const { limits, lockout } = rateLimitsFromEnv();
+
 /**
  * Main services container with all application services.
- * Provides auth, AWS, notifications, payments, and enums.
+ * Provides auth, AWS, logging, notifications, error reports, payments, rate limits, roles, subscriptions, users, and enums.
  * All services share a single Redis client instance.
  */
 export const services = {
-    auth: new Auth(redisClient),
-    aws: new AWS(),
+    auth: new Auth(redisClient, aws.cognito, aws.ses),
+    aws,
     enums,
-    notifications: new Notifier(),
+    logger,
+    notifications,
+    errorReporter: new ErrorReporter(redisClient, notifications),
     payments: new Payments(redisClient),
+    rateLimiter: new RateLimiter(redisClient, notifications, limits, lockout),
+    roles,
+    subscriptions,
+    users,
 };
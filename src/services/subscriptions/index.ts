@@ -0,0 +1,6 @@
+/**
+ * Re-exports subscription lifecycle helpers.
+ * Provides centralized access to subscribing, renewals, dunning and plan checks.
+ */
+
+export * from './subscriptions';
@@ -0,0 +1,374 @@
+/**
+ * Subscription lifecycle built on top of payments.
+ * Handles subscribing to monthly plans, renewal charges, dunning and cancellation.
+ */
+
+import { and, eq, ne } from 'drizzle-orm';
+import type { ApiDatabase } from '../../db/db';
+import { schema, type Payment, type Plan, type Subscription } from '../../db/schema';
+import type { Services, SessionPlan } from '../../types/types';
+import { PaymentMethod, PaymentPurpose, PaymentStatus, SubscriptionStatus } from '../enums';
+
+/** Days between renewal attempts of a past due subscription. */
+const RENEWAL_RETRY_DAYS = 3;
+
+/** Renewal charges issued before a past due subscription is canceled. */
+const MAX_RENEWAL_ATTEMPTS = 3;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Finds the user's current (not canceled) subscription with its plan.
+ *
+ * @param db Database instance
+ * @param userId User ID
+ * @returns Promise<(Subscription & {plan: Plan}) | undefined> Current subscription, if any
+ */
+export async function getCurrentSubscription(db: ApiDatabase, userId: string) {
+  return db.query.subscriptions.findFirst({
+    where: (subscriptions, { and, eq, ne }) =>
+      and(eq(subscriptions.userId, userId), ne(subscriptions.status, SubscriptionStatus.CANCELED)),
+    orderBy: (subscriptions, { desc }) => desc(subscriptions.createdAt),
+    with: { plan: true },
+  });
+}
+
+/**
+ * Resolves the plan snapshot cached in the user's sessions.
+ *
+ * @param db Database instance
+ * @param userId User ID
+ * @returns Promise<SessionPlan | undefined> Current plan, or undefined if the user has no subscription
+ */
+export async function getSessionPlan(db: ApiDatabase, userId: string): Promise<SessionPlan | undefined> {
+  const subscription = await getCurrentSubscription(db, userId);
+  if (!subscription) return undefined;
+
+  return toSessionPlan(subscription, subscription.plan);
+}
+
+/**
+ * Checks whether a cached plan grants access, optionally to one of the given plans.
+ *
+ * @param plan Plan snapshot from the session
+ * @param slugs Accepted plan slugs; any plan is accepted when empty
+ * @returns boolean True if the subscription is trialing or active and not past its period end
+ */
+export function hasActivePlan(plan: SessionPlan | undefined, slugs: string[] = []): boolean {
+  if (!plan) return false;
+  if (plan.status !== SubscriptionStatus.ACTIVE && plan.status !== SubscriptionStatus.TRIALING) return false;
+  if (plan.currentPeriodEnd <= Date.now()) return false;
+
+  return slugs.length === 0 || slugs.includes(plan.slug);
+}
+
+/**
+ * Subscribes a user to a plan.
+ * Plans with a trial start as `trialing` without a charge; otherwise the subscription
+ * starts as `past_due` and becomes `active` once the first charge is paid. If the first charge
+ * cannot be created, the subscription is removed again and the error is rethrown.
+ *
+ * @param db Database instance
+ * @param services Services container
+ * @param userId User ID
+ * @param plan Plan to subscribe to
+ * @param method Payment method used for every charge of the subscription
+ * @returns Promise<{subscription: Subscription, payment?: Payment, charge?: Charge}> New subscription and its first charge, if any
+ */
+export async function subscribe(
+  { db, services }: { db: ApiDatabase; services: Services },
+  { userId, plan, method }: { userId: string; plan: Plan; method: PaymentMethod },
+) {
+  const now = new Date();
+  const trialing = plan.trialDays > 0;
+
+  const [subscription] = await db
+    .insert(schema.subscriptions)
+    .values({
+      userId,
+      planId: plan.id,
+      status: trialing ? SubscriptionStatus.TRIALING : SubscriptionStatus.PAST_DUE,
+      paymentMethod: method,
+      currentPeriodStart: now,
+      currentPeriodEnd: trialing ? new Date(now.getTime() + plan.trialDays * DAY) : now,
+    })
+    .returning();
+
+  if (trialing) return { subscription };
+
+  // Without its first charge the subscription could never be paid, and would block subscribing again
+  const { payment, charge } = await chargeRenewal({ db, services }, subscription, plan).catch(async (error) => {
+    await db.delete(schema.subscriptions).where(eq(schema.subscriptions.id, subscription.id));
+    throw error;
+  });
+  return { subscription, payment, charge };
+}
+
+/**
+ * Cancels a subscription.
+ * Paid periods stay usable until they end; unpaid subscriptions are canceled right away.
+ * A Pix renewal charge stays payable until it expires, so paying it afterwards is handled
+ * by {@link handlePaymentSettled}.
+ *
+ * @param db Database instance
+ * @param subscription Subscription to cancel
+ * @returns Promise<Subscription> Updated subscription
+ */
+export async function cancel(db: ApiDatabase, subscription: Subscription): Promise<Subscription> {
+  const now = new Date();
+  const immediate = subscription.status === SubscriptionStatus.PAST_DUE;
+
+  const [updated] = await db
+    .update(schema.subscriptions)
+    .set(
+      immediate
+        ? { status: SubscriptionStatus.CANCELED, canceledAt: now, updatedAt: now }
+        : { cancelAtPeriodEnd: true, updatedAt: now },
+    )
+    .where(eq(schema.subscriptions.id, subscription.id))
+    .returning();
+
+  return updated;
+}
+
+/**
+ * Applies a settled subscription payment: a paid charge starts a new billing period.
+ * Failed charges are left to the dunning run of {@link renew}.
+ *
+ * A charge paid after its subscription was canceled reactivates the subscription, unless
+ * the user has subscribed again since; the payment is then refunded, or reported to admins
+ * for a manual refund when the provider cannot refund it.
+ *
+ * @param db Database instance
+ * @param services Services container
+ * @param payment Settled payment
+ * @returns Promise<void>
+ */
+export async function handlePaymentSettled(
+  { db, services }: { db: ApiDatabase; services: Services },
+  payment: Payment,
+): Promise<void> {
+  if (!payment.subscriptionId || payment.status !== PaymentStatus.COMPLETED) return;
+
+  const subscription = await db.query.subscriptions.findFirst({
+    where: (subscriptions, { eq }) => eq(subscriptions.id, payment.subscriptionId as string),
+    with: { plan: true },
+  });
+  if (!subscription) return;
+
+  if (subscription.status === SubscriptionStatus.CANCELED) {
+    const current = await getCurrentSubscription(db, subscription.userId);
+    if (current) {
+      await refundUnapplied({ db, services }, payment, subscription.plan);
+      return;
+    }
+  }
+
+  const now = new Date();
+  const start = subscription.currentPeriodEnd > now ? subscription.currentPeriodEnd : now;
+
+  await db
+    .update(schema.subscriptions)
+    .set({
+      status: SubscriptionStatus.ACTIVE,
+      currentPeriodStart: start,
+      currentPeriodEnd: addMonths(start, 1),
+      renewalAttempts: 0,
+      ...(subscription.status === SubscriptionStatus.CANCELED && { canceledAt: null, cancelAtPeriodEnd: false }),
+      updatedAt: now,
+    })
+    .where(eq(schema.subscriptions.id, subscription.id));
+
+  services.notifications.notify('subscriptions.activated', {
+    userId: subscription.userId,
+    plan: subscription.plan.name,
+  });
+}
+
+/**
+ * Runs renewals and dunning for all subscriptions:
+ * - trialing/active subscriptions past their period end are renewed (or canceled when set to)
+ * - past due subscriptions without a pending charge are charged again every few days
+ *   and canceled after the last attempt
+ *
+ * @param db Database instance
+ * @param services Services container
+ * @returns Promise<{renewed: number, retried: number, canceled: number}> Counts of processed subscriptions
+ */
+export async function renew({ db, services }: { db: ApiDatabase; services: Services }) {
+  const now = new Date();
+  const result = { renewed: 0, retried: 0, canceled: 0 };
+
+  const due = await db.query.subscriptions.findMany({
+    where: (subscriptions, { and, inArray, lte }) =>
+      and(
+        inArray(subscriptions.status, [SubscriptionStatus.ACTIVE, SubscriptionStatus.TRIALING]),
+        lte(subscriptions.currentPeriodEnd, now),
+      ),
+    with: { plan: true },
+  });
+
+  for (const subscription of due) {
+    if (subscription.cancelAtPeriodEnd || !subscription.plan.active) {
+      await end({ db, services }, subscription, subscription.plan, 'Canceled at period end');
+      result.canceled++;
+      continue;
+    }
+
+    await db
+      .update(schema.subscriptions)
+      .set({ status: SubscriptionStatus.PAST_DUE, renewalAttempts: 0, updatedAt: now })
+      .where(eq(schema.subscriptions.id, subscription.id));
+
+    await chargeRenewal({ db, services }, { ...subscription, renewalAttempts: 0 }, subscription.plan).catch((error) =>
+      services.logger.error('Error charging subscription renewal', { subscriptionId: subscription.id, error }),
+    );
+    result.renewed++;
+  }
+
+  const pastDue = await db.query.subscriptions.findMany({
+    where: (subscriptions, { and, eq, lte }) =>
+      and(
+        eq(subscriptions.status, SubscriptionStatus.PAST_DUE),
+        lte(subscriptions.lastRenewalAttemptAt, new Date(now.getTime() - RENEWAL_RETRY_DAYS * DAY)),
+      ),
+    with: { plan: true },
+  });
+
+  for (const subscription of pastDue) {
+    const pending = await db.query.payments.findFirst({
+      columns: { id: true },
+      where: (payments, { and, eq }) =>
+        and(eq(payments.subscriptionId, subscription.id), eq(payments.status, PaymentStatus.PENDING)),
+    });
+    if (pending) continue;
+
+    if (subscription.renewalAttempts >= MAX_RENEWAL_ATTEMPTS || subscription.cancelAtPeriodEnd) {
+      await end({ db, services }, subscription, subscription.plan, 'Renewal payment not received');
+      result.canceled++;
+      continue;
+    }
+
+    await chargeRenewal({ db, services }, subscription, subscription.plan).catch((error) =>
+      services.logger.error('Error retrying subscription renewal', { subscriptionId: subscription.id, error }),
+    );
+    result.retried++;
+  }
+
+  return result;
+}
+
+/**
+ * Issues a charge for the next billing period and records the renewal attempt.
+ */
+async function chargeRenewal(
+  { db, services }: { db: ApiDatabase; services: Services },
+  subscription: Subscription,
+  plan: Plan,
+) {
+  const now = new Date();
+
+  await db
+    .update(schema.subscriptions)
+    .set({
+      renewalAttempts: subscription.renewalAttempts + 1,
+      lastRenewalAttemptAt: now,
+      updatedAt: now,
+    })
+    .where(eq(schema.subscriptions.id, subscription.id));
+
+  const method = subscription.paymentMethod as PaymentMethod;
+
+  return services.payments.records.createPayment(
+    { db, services },
+    {
+      userId: subscription.userId,
+      amount: plan.amount,
+      method,
+      currency: method === PaymentMethod.PIX ? 'brl' : plan.currency,
+      purpose: PaymentPurpose.SUBSCRIPTION,
+      subscriptionId: subscription.id,
+      description: plan.name,
+    },
+  );
+}
+
+/**
+ * Cancels a subscription for good and notifies admins.
+ */
+async function end(
+  { db, services }: { db: ApiDatabase; services: Services },
+  subscription: Subscription,
+  plan: Plan,
+  reason: string,
+) {
+  const now = new Date();
+
+  await db
+    .update(schema.subscriptions)
+    .set({ status: SubscriptionStatus.CANCELED, canceledAt: now, updatedAt: now })
+    .where(
+      and(
+        eq(schema.subscriptions.id, subscription.id),
+        ne(schema.subscriptions.status, SubscriptionStatus.CANCELED),
+      ),
+    );
+
+  services.notifications.notify('subscriptions.canceled', {
+    userId: subscription.userId,
+    plan: plan.name,
+    reason,
+  });
+}
+
+/**
+ * Refunds a subscription payment that cannot be applied, falling back to asking admins
+ * for a manual refund when the provider rejects it (e.g. Pix charges).
+ */
+async function refundUnapplied(
+  { db, services }: { db: ApiDatabase; services: Services },
+  payment: Payment,
+  plan: Plan,
+) {
+  try {
+    await services.payments.records.refundPayment(
+      { db, services },
+      { payment, reason: 'Paid after the subscription was canceled' },
+    );
+  } catch (error) {
+    services.logger.error('Error refunding subscription payment', { paymentId: payment.id, error });
+    services.notifications.notify('subscriptions.refundRequired', {
+      userId: payment.userId,
+      plan: plan.name,
+      amount: payment.amount,
+      transactionId: payment.providerId,
+    });
+  }
+}
+
+/**
+ * Builds the plan snapshot cached in sessions.
+ */
+function toSessionPlan(subscription: Subscription, plan: Plan): SessionPlan {
+  return {
+    slug: plan.slug,
+    status: subscription.status as SubscriptionStatus,
+    currentPeriodEnd: subscription.currentPeriodEnd.getTime(),
+  };
+}
+
+/**
+ * Adds calendar months to a date, clamping to the last day of the target month.
+ */
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  const day = result.getUTCDate();
+
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+
+  const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+  result.setUTCDate(Math.min(day, lastDay));
+
+  return result;
+}
@@ -0,0 +1,6 @@
+/**
+ * Re-exports user management helpers.
+ * Provides centralized access to user search and admin account changes.
+ */
+
+export * from './users';
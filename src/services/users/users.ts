@@ -0,0 +1,277 @@
+/**
+ * User management used by the admin API and by users for their own account (`/me`).
+ * Every admin change updates `updatedAt`, is propagated to the user's live sessions and notifies admins.
+ */
+
+import { and, count, desc, eq, inArray, isNull, sql, type SQL } from 'drizzle-orm';
+import type { ApiDatabase } from '../../db/db';
+import { schema, type OAuthAccount, type User } from '../../db/schema';
+import type { Services } from '../../types/types';
+import { UserStatus, type UserRole } from '../enums';
+
+/**
+ * Filters accepted by {@link searchUsers}.
+ */
+export interface UserSearch {
+  /** Case-insensitive substring of the email */
+  email?: string;
+  /** Case-insensitive substring of the name */
+  name?: string;
+  status?: UserStatus;
+  role?: UserRole;
+  /** Only users with a linked account of this provider (e.g. `google`, `cognito`) */
+  provider?: string;
+  /** Include soft-deleted users */
+  includeDeleted?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Searches users, newest first.
+ *
+ * @param db Database instance
+ * @param search Filters and pagination
+ * @returns Promise<{items: User[], page: number, limit: number, total: number}> Page of matching users
+ */
+export async function searchUsers(
+  db: ApiDatabase,
+  { email, name, status, role, provider, includeDeleted = false, page = 1, limit = 20 }: UserSearch,
+) {
+  const { users, oauthAccounts } = schema;
+  const conditions: SQL[] = [];
+
+  if (email) conditions.push(sql`instr(lower(${users.email}), ${email.toLowerCase()}) > 0`);
+  if (name) conditions.push(sql`instr(lower(${users.name}), ${name.toLowerCase()}) > 0`);
+  if (status) conditions.push(eq(users.status, status));
+  if (role) conditions.push(eq(users.role, role));
+  if (provider) {
+    conditions.push(
+      inArray(
+        users.id,
+        db.select({ userId: oauthAccounts.userId }).from(oauthAccounts).where(eq(oauthAccounts.provider, provider)),
+      ),
+    );
+  }
+  if (!includeDeleted) conditions.push(isNull(users.deletedAt));
+
+  const where = and(...conditions);
+
+  const [items, [{ total }]] = await Promise.all([
+    db
+      .select()
+      .from(users)
+      .where(where)
+      .orderBy(desc(users.createdAt))
+      .limit(limit)
+      .offset((page - 1) * limit),
+    db.select({ total: count() }).from(users).where(where),
+  ]);
+
+  return { items, page, limit, total };
+}
+
+/**
+ * Finds a user, including soft-deleted ones, with their linked login methods.
+ *
+ * @param db Database instance
+ * @param userId User ID
+ * @returns Promise<(User & {oauthAccounts: OAuthAccount[]}) | undefined> User, if found
+ */
+export async function getUser(db: ApiDatabase, userId: string) {
+  return db.query.users.findFirst({
+    where: (users, { eq }) => eq(users.id, userId),
+    with: { oauthAccounts: true },
+  });
+}
+
+/**
+ * Changes a user's role, swaps the matching system role assignment and applies both to their live sessions.
+ *
+ * @param db Database instance
+ * @param services Services container
+ * @param user User to change
+ * @param role New role
+ * @param adminId Admin making the change
+ * @param reason Optional reason, included in the notification
+ * @returns Promise<User> Updated user
+ */
+export async function setRole(
+  { db, services }: { db: ApiDatabase; services: Services },
+  { user, role, adminId, reason }: { user: User; role: UserRole; adminId: string; reason?: string },
+): Promise<User> {
+  const [updated] = await db
+    .update(schema.users)
+    .set({ role, updatedAt: new Date() })
+    .where(eq(schema.users.id, user.id))
+    .returning();
+
+  await services.roles.assignSystemRole(db, { userId: user.id, role, adminId });
+  await services.auth.sessions.updateUserSessions(user.id, {
+    role,
+    permissions: await services.roles.getUserPermissions(db, user.id),
+  });
+
+  services.notifications.notify('users.roleChanged', {
+    userId: user.id,
+    email: user.email,
+    role,
+    adminId,
+    reason,
+  });
+
+  return updated;
+}
+
+/**
+ * Changes a user's status. Banned users are logged out everywhere; other statuses
+ * are applied to their live sessions.
+ *
+ * @param db Database instance
+ * @param services Services container
+ * @param user User to change
+ * @param status New status
+ * @param adminId Admin making the change
+ * @param reason Reason for the change, stored with the user
+ * @returns Promise<User> Updated user
+ */
+export async function setStatus(
+  { db, services }: { db: ApiDatabase; services: Services },
+  { user, status, adminId, reason }: { user: User; status: UserStatus; adminId: string; reason: string },
+): Promise<User> {
+  const [updated] = await db
+    .update(schema.users)
+    .set({ status, statusReason: reason, updatedAt: new Date() })
+    .where(eq(schema.users.id, user.id))
+    .returning();
+
+  if (status === UserStatus.BANNED) {
+    await services.auth.sessions.deleteUserSessions(user.id);
+  } else {
+    await services.auth.sessions.updateUserSessions(user.id, { status });
+  }
+
+  services.notifications.notify('users.statusChanged', {
+    userId: user.id,
+    email: user.email,
+    status,
+    adminId,
+    reason,
+  });
+
+  return updated;
+}
+
+/**
+ * Soft-deletes a user: the row is kept (payments and history stay linked),
+ * the user can no longer log in and all of their sessions are killed.
+ *
+ * @param db Database instance
+ * @param services Services container
+ * @param user User to delete
+ * @param adminId Admin making the change
+ * @param reason Optional reason, included in the notification
+ * @returns Promise<User> Updated user
+ */
+export async function softDelete(
+  { db, services }: { db: ApiDatabase; services: Services },
+  { user, adminId, reason }: { user: User; adminId: string; reason?: string },
+): Promise<User> {
+  const now = new Date();
+
+  const [updated] = await db
+    .update(schema.users)
+    .set({ deletedAt: now, updatedAt: now })
+    .where(eq(schema.users.id, user.id))
+    .returning();
+
+  await services.auth.sessions.deleteUserSessions(user.id);
+
+  services.notifications.notify('users.deleted', {
+    userId: user.id,
+    email: user.email,
+    adminId,
+    reason,
+  });
+
+  return updated;
+}
+
+/**
+ * Updates the profile fields users can change themselves.
+ *
+ * @param db Database instance
+ * @param userId User ID
+ * @param profile New name and/or picture URL
+ * @returns Promise<User> Updated user
+ */
+export async function updateProfile(
+  db: ApiDatabase,
+  userId: string,
+  profile: { name?: string; picture?: string },
+): Promise<User> {
+  const [updated] = await db
+    .update(schema.users)
+    .set({ ...profile, updatedAt: new Date() })
+    .where(eq(schema.users.id, userId))
+    .returning();
+
+  return updated;
+}
+
+/**
+ * Unlinks a login method from a user. Unlinking the password login also deletes the
+ * Cognito user, so the password stops working. Callers must keep at least one login method.
+ *
+ * @param db Database instance
+ * @param services Services container
+ * @param accounts Linked accounts of the provider to unlink
+ * @returns Promise<void>
+ */
+export async function unlinkProvider(
+  { db, services }: { db: ApiDatabase; services: Services },
+  accounts: OAuthAccount[],
+): Promise<void> {
+  for (const account of accounts) {
+    if (account.provider === services.auth.accounts.PASSWORD_PROVIDER) {
+      await services.aws.cognito.deleteUser(account.providerId);
+    }
+
+    await db.delete(schema.oauthAccounts).where(eq(schema.oauthAccounts.id, account.id));
+  }
+}
+
+/**
+ * Permanently deletes a user's account: the Cognito user and the S3 files under
+ * `users/{userId}/` are removed first, then every session is killed and the row is deleted,
+ * cascading to linked accounts, payments, subscriptions and role assignments.
+ * If an external deletion fails nothing is deleted from the database, so it can be retried.
+ *
+ * @param db Database instance
+ * @param services Services container
+ * @param user User to delete
+ * @returns Promise<void>
+ */
+export async function deleteAccount(
+  { db, services }: { db: ApiDatabase; services: Services },
+  user: User,
+): Promise<void> {
+  const passwordAccounts = await db.query.oauthAccounts.findMany({
+    where: (oauthAccounts, { and, eq }) =>
+      and(eq(oauthAccounts.userId, user.id), eq(oauthAccounts.provider, services.auth.accounts.PASSWORD_PROVIDER)),
+  });
+
+  for (const account of passwordAccounts) {
+    await services.aws.cognito.deleteUser(account.providerId);
+  }
+
+  await services.aws.s3.deletePrefix(`users/${user.id}/`);
+
+  await services.auth.sessions.deleteUserSessions(user.id);
+  await db.delete(schema.users).where(eq(schema.users.id, user.id));
+
+  services.notifications.notify('users.deleted', {
+    userId: user.id,
+    email: user.email,
+  });
+}
@@ -6,6 +6,7 @@
 import type { SingletonBase } from 'elysia';
 import { services } from '../services/services';
 import type { ApiDatabase } from '../db/db';
+import type { SubscriptionStatus, UserRole } from '../services/enums';
 
 /**
  * Type alias for the services container, extracted from the services instance.
@@ -20,25 +21,89 @@ export interface AppContext extends SingletonBase {
   decorator: {
     services: Services;
     db: ApiDatabase;
-    userId?: string;
-    role: Services['enums']['UserRole'];
-    status?: 'active' | 'inactive' | 'banned';
-    sessionId?: string;
   },
   store: Record<string, unknown>;
+  /** Empty so guards (e.g. `requireAuth`) can add their resolved context with precise types */
+  derive: {};
+  resolve: {};
 }
 
+/**
+ * User context resolved from the session or API key by the auth guard (see `requireAuth`).
+ * A type alias (not an interface) so Elysia accepts it as a resolved record.
+ */
+export type AuthContext = {
+  userId: string;
+  /** Session ID; unset for API key requests (see `requireSession`) */
+  sessionId?: string;
+  /** API key of the request, if authenticated with one instead of a session */
+  apiKey?: { id: string; scopes: string[] };
+  role: UserRole;
+  userStatus: 'active' | 'inactive' | 'banned';
+  /** Permissions granted by the user's roles */
+  permissions: string[];
+  plan?: SessionPlan;
+  /** Whether the session passed 2FA (never for API keys) */
+  mfaVerified: boolean;
+  /** Last time the session proved the user's identity (login or 2FA code), in milliseconds; unset for API keys */
+  authenticatedAt?: number;
+};
+
 /**
  * Session data structure stored in Redis for authenticated users.
- * Contains user ID, role, status, and expiration timestamp.
+ * Contains user ID, role, status, and expiration timestamps.
  */
 export interface SessionData {
   userId: string;
-  role: Services['enums']['UserRole'];
+  role: UserRole;
   status: 'active' | 'inactive' | 'banned';
+  /** Permissions granted by the user's roles, kept in sync when roles change */
+  permissions?: string[];
+  plan?: SessionPlan;
+  /** Cognito tokens of password sessions */
+  cognito?: {
+    /** Refresh token, encrypted with `SESSION_ENCRYPTION_KEY` */
+    refreshToken: string;
+    /** ID token expiry, in milliseconds */
+    expiresAt: number;
+  };
+  /** Client that opened the session */
+  device?: SessionDevice;
+  /** `pending_mfa` until a user with 2FA enabled enters a code; only the verify endpoint accepts it */
+  state?: 'active' | 'pending_mfa';
+  /** Time the session passed 2FA, in milliseconds */
+  mfaAt?: number;
+  /** "Remember me" session: lasts the policy's `rememberMeLifetime`, with no idle timeout */
+  rememberMe?: boolean;
+  /** Absolute expiry, in milliseconds (unset on sessions created before the session policy) */
+  maxExp?: number;
+  /** Expiry, in milliseconds: moved forward as the session is used, up to `maxExp` */
   exp: number;
 }
 
+/**
+ * Device metadata stored with a session, shown when listing sessions.
+ */
+export interface SessionDevice {
+  userAgent?: string;
+  ip?: string;
+  /** Login time, in milliseconds */
+  createdAt: number;
+  /** Last authenticated request, in milliseconds */
+  lastSeen: number;
+}
+
+/**
+ * Snapshot of the user's current subscription cached in the session.
+ * Lets handlers check the plan without querying the database.
+ */
+export interface SessionPlan {
+  slug: string;
+  status: SubscriptionStatus;
+  /** End of the paid (or trial) period, in milliseconds */
+  currentPeriodEnd: number;
+}
+
 /**
  * OAuth profile data structure returned by OAuth providers.
  * Contains standardized user information from Google, GitHub, Discord, etc.
@@ -47,6 +112,8 @@ export interface OAuthProfile {
   id: string;
   name: string;
   email: string;
+  /** Whether the provider reports the email as verified; unverified emails are never merged into existing users */
+  emailVerified: boolean;
   picture?: string;
   provider: string;
 }